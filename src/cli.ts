@@ -1,8 +1,9 @@
 #!/usr/bin/env node
-import { readFileSync } from 'node:fs'
+import { appendFileSync, readFileSync } from 'node:fs'
 import { dirname, join } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { Command } from 'commander'
+import { registerCacheCommand } from './commands/cache.js'
 import { registerConfigCommand } from './commands/config.js'
 import { registerCryptoCommand } from './commands/crypto.js'
 import { registerDividendsCommand } from './commands/dividends.js'
@@ -12,10 +13,22 @@ import { registerFinancialsCommand } from './commands/financials.js'
 import { registerHistoryCommand } from './commands/history.js'
 import { registerInsidersCommand } from './commands/insiders.js'
 import { registerMacroCommand } from './commands/macro.js'
+import { registerMockServerCommand } from './commands/mock-server.js'
 import { registerOptionsCommand } from './commands/options.js'
 import { registerQuoteCommand } from './commands/quote.js'
 import { registerSearchCommand } from './commands/search.js'
 import { registerSourcesCommand } from './commands/sources.js'
+import * as cache from './core/cache.js'
+import { persistBreakersTo } from './core/circuit-breaker.js'
+import { getStateDir, loadConfig, parseDuration, parseTtlSpec } from './core/config.js'
+import { InvalidArgumentError, exitCodeFor } from './core/errors.js'
+import { createRecordingFetch, createReplayFetch } from './core/fixtures.js'
+import { formatTraceEvent } from './core/formatter.js'
+import { setFetch } from './core/http.js'
+import { createEnvFetch } from './core/proxy.js'
+import { persistRateLimitsTo, setDefaultMaxWait } from './core/rate-limiter.js'
+import { onTrace } from './core/trace.js'
+import { mockServerFetch } from './providers/mock-server.js'
 import { registerAllProviders } from './providers/registry.js'
 import type { OutputFormat } from './types.js'
 
@@ -30,21 +43,99 @@ program
 	.version(pkg.version)
 	.option('--json', 'output as JSON')
 	.option('--plain', 'output as tab-separated values')
-	.option('-v, --verbose', 'verbose output')
+	.option('--csv', 'output as CSV with raw numbers (for spreadsheets and pandas)')
+	.option('--ndjson', 'stream rows as newline-delimited JSON, one object per line')
+	.option('-v, --verbose', 'print each provider attempt, cache lookup and HTTP call to stderr')
+	.option('--trace <file>', 'append trace events to a file as NDJSON')
 	.option('-s, --source <source>', 'force specific data source')
 	.option('--no-cache', 'bypass cache')
+	.option('--no-wait', 'fail immediately when rate limited instead of waiting for quota')
+	.option('--cache-ttl <ttl>', 'override cache TTLs for this run (e.g. 0, quote=0,fred:macro=24h)')
+	.option('--stale-if-error', 'serve expired cached data if all providers fail')
+	.option(
+		'--stale-if-error-max-age <age>',
+		'how long past expiry --stale-if-error may serve data (default: 24h)',
+	)
+	.option('--timeout <ms>', 'give up on a source after this long and try the next (default: 30s)')
+	.option('--record <dir>', 'save every upstream HTTP exchange to a directory (API keys stripped)')
+	.option('--replay <dir>', 'serve HTTP responses recorded with --record, without network access')
 	.hook('preAction', () => {
 		// Normalize format option
 		const rawOpts = program.opts()
 		let format: OutputFormat = 'markdown'
 		if (rawOpts.json) format = 'json'
+		else if (rawOpts.ndjson) format = 'ndjson'
+		else if (rawOpts.csv) format = 'csv'
 		else if (rawOpts.plain) format = 'plain'
 		// Store normalized format
 		program.setOptionValue('format', format)
+		if (!rawOpts.wait) setDefaultMaxWait(0)
+		if (rawOpts.verbose) {
+			onTrace((event) => {
+				const line = formatTraceEvent(event)
+				if (line) console.error(`[trace] ${line}`)
+			})
+		}
+		if (rawOpts.trace) {
+			const traceFile = rawOpts.trace as string
+			// Synchronous so events aren't lost when the CLI exits on an error
+			onTrace((event) => appendFileSync(traceFile, `${JSON.stringify(event)}\n`))
+		}
+		if (rawOpts.cacheTtl) cache.setTtlOverrides(parseTtlSpec(rawOpts.cacheTtl))
+		// A separate option for the age, so the flag never swallows the command that follows
+		if (rawOpts.staleIfError || rawOpts.staleIfErrorMaxAge !== undefined) {
+			program.setOptionValue('staleIfError', parseDuration(rawOpts.staleIfErrorMaxAge ?? '24h'))
+		}
+
+		if (rawOpts.timeout !== undefined) {
+			// Bare numbers are milliseconds here, unlike durations in the config
+			const value = String(rawOpts.timeout).trim()
+			const ms = /^\d+$/.test(value) ? Number(value) : parseDuration(value)
+			if (ms <= 0) throw new InvalidArgumentError(`Invalid timeout: ${rawOpts.timeout}`)
+			program.setOptionValue('timeout', ms)
+		}
+
+		if (rawOpts.record && rawOpts.replay) {
+			throw new InvalidArgumentError('--record and --replay cannot be used together')
+		}
+		// OMD_MOCK_SERVER points the real providers at `omd mock-server`. Otherwise proxy
+		// variables and a custom CA need undici's fetch, and the built-in one is used if neither is set.
+		const mockServer = process.env.OMD_MOCK_SERVER
+		const transport = mockServer
+			? mockServerFetch(mockServer)
+			: createEnvFetch({ caFile: loadConfig().caFile })
+		if (rawOpts.replay) setFetch(createReplayFetch(rawOpts.replay))
+		else if (rawOpts.record) setFetch(createRecordingFetch(rawOpts.record, transport))
+		else setFetch(transport)
+
+		// Persist cache, circuit breakers and rate limits on disk so they carry over between runs.
+		// Recording skips the disk cache so every exchange is captured; replaying keeps no
+		// state at all, so a replay gives the same result every time.
+		if (!rawOpts.record && !rawOpts.replay) cache.setStore(cache.createFileStore())
+		if (!rawOpts.replay) {
+			persistBreakersTo(join(getStateDir(), 'breakers.json'))
+			persistRateLimitsTo(join(getStateDir(), 'rate-limits.json'))
+		}
 	})
 
-// Register all providers
-registerAllProviders()
+// Register built-in providers and any configured plugins. A broken plugin shouldn't
+// lock the user out of `omd config`, so it's reported and skipped.
+try {
+	await registerAllProviders({
+		onPluginError: (_spec, err) => {
+			console.error(`Warning: ${(err as Error).message} (plugin skipped)`)
+		},
+	})
+} catch (err) {
+	console.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
+	process.exit(exitCodeFor(err))
+}
+
+// `omd --ndjson history AAPL | head` closes the pipe early; the reader is done, not broken
+process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+	if (err.code === 'EPIPE') process.exit(0)
+	throw err
+})
 
 // Register commands
 registerSearchCommand(program)
@@ -59,9 +150,11 @@ registerInsidersCommand(program)
 registerMacroCommand(program)
 registerCryptoCommand(program)
 registerSourcesCommand(program)
+registerCacheCommand(program)
 registerConfigCommand(program)
+registerMockServerCommand(program)
 
 program.parseAsync(process.argv).catch((err) => {
 	console.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
-	process.exit(1)
+	process.exit(exitCodeFor(err))
 })
@@ -0,0 +1,164 @@
+import type { Command } from 'commander'
+import * as cache from '../core/cache.js'
+import { InvalidArgumentError } from '../core/errors.js'
+import { formatDuration, formatTable, isMachineFormat } from '../core/formatter.js'
+import { DATA_CATEGORIES, type DataCategory } from '../providers/types.js'
+import type { GlobalOptions } from '../types.js'
+
+interface FilterOptions {
+	provider?: string
+	category?: string
+	symbol?: string
+}
+
+function toFilter(cmdOpts: FilterOptions): cache.CacheFilter {
+	if (cmdOpts.category && !DATA_CATEGORIES.includes(cmdOpts.category as DataCategory)) {
+		throw new InvalidArgumentError(
+			`Invalid category: ${cmdOpts.category}. Valid categories: ${DATA_CATEGORIES.join(', ')}`,
+		)
+	}
+	return {
+		provider: cmdOpts.provider,
+		category: cmdOpts.category as DataCategory | undefined,
+		symbol: cmdOpts.symbol,
+	}
+}
+
+function formatArgs(args: Record<string, unknown>): string {
+	return Object.entries(args)
+		.filter(([_, v]) => v != null)
+		.map(([k, v]) => `${k}=${Array.isArray(v) ? v.join(',') : String(v)}`)
+		.join(' ')
+}
+
+interface StatRow {
+	entries: number
+	hits: number
+	misses: number
+	coalesced: number
+}
+
+function hitRate(row: StatRow): string {
+	const total = row.hits + row.misses
+	return total > 0 ? `${((row.hits / total) * 100).toFixed(1)}%` : ''
+}
+
+export function registerCacheCommand(program: Command): void {
+	const cmd = program.command('cache').description('Inspect and manage the response cache')
+
+	cmd
+		.command('stats')
+		.description('Show hit/miss counts and entries per provider and category')
+		.option('--reset', 'reset hit/miss/coalesced counters')
+		.action((cmdOpts: { reset?: boolean }) => {
+			const opts = program.opts<GlobalOptions>()
+			if (cmdOpts.reset) {
+				cache.resetStats()
+				console.log('Cache counters reset.')
+				return
+			}
+
+			const byProvider = new Map<string, StatRow>()
+			const byCategory = new Map<string, StatRow>()
+			const row = (map: Map<string, StatRow>, key: string) => {
+				let r = map.get(key)
+				if (!r) {
+					r = { entries: 0, hits: 0, misses: 0, coalesced: 0 }
+					map.set(key, r)
+				}
+				return r
+			}
+
+			const now = Date.now()
+			for (const entry of cache.list()) {
+				if (entry.expiresAt <= now) continue
+				row(byProvider, entry.provider).entries++
+				row(byCategory, entry.category).entries++
+			}
+			for (const stat of cache.getStats()) {
+				for (const r of [row(byProvider, stat.provider), row(byCategory, stat.category)]) {
+					r.hits += stat.hits
+					r.misses += stat.misses
+					r.coalesced += stat.coalesced ?? 0
+				}
+			}
+
+			const toRows = (map: Map<string, StatRow>) =>
+				[...map.entries()]
+					.sort((a, b) => a[0].localeCompare(b[0]))
+					.map(([name, r]) => [name, r.entries, r.hits, r.misses, r.coalesced, hitRate(r)])
+
+			if (opts.format === 'json') {
+				const toObjects = (key: string, map: Map<string, StatRow>) =>
+					[...map.entries()].map(([name, r]) => ({ [key]: name, ...r }))
+				console.log(
+					JSON.stringify(
+						{
+							providers: toObjects('provider', byProvider),
+							categories: toObjects('category', byCategory),
+						},
+						null,
+						2,
+					),
+				)
+				return
+			}
+
+			const headers = ['Entries', 'Hits', 'Misses', 'Coalesced', 'Hit Rate']
+			console.log(formatTable(['Provider', ...headers], toRows(byProvider), opts.format))
+			console.log()
+			console.log(formatTable(['Category', ...headers], toRows(byCategory), opts.format))
+		})
+
+	cmd
+		.command('ls')
+		.description('List cached entries with time left until expiry')
+		.option('-p, --provider <name>', 'only entries from this provider')
+		.option('-c, --category <category>', 'only entries in this category')
+		.option('--symbol <symbol>', 'only entries for this symbol or series')
+		.action((cmdOpts: FilterOptions) => {
+			const opts = program.opts<GlobalOptions>()
+			const now = Date.now()
+			const rows = cache
+				.list(toFilter(cmdOpts))
+				.map((e) => [
+					e.provider,
+					e.category,
+					e.action ?? '',
+					formatArgs(e.args),
+					e.expiresAt > now ? formatDuration(e.expiresAt - now) : 'expired',
+				])
+
+			if (rows.length === 0 && !isMachineFormat(opts.format)) {
+				console.log('Cache is empty.')
+				return
+			}
+			console.log(
+				formatTable(['Provider', 'Category', 'Action', 'Args', 'Expires In'], rows, opts.format),
+			)
+		})
+
+	cmd
+		.command('clear')
+		.description('Remove cached entries (all, or by provider, category or symbol)')
+		.option('-p, --provider <name>', 'only entries from this provider')
+		.option('-c, --category <category>', 'only entries in this category')
+		.option('--symbol <symbol>', 'only entries for this symbol or series')
+		.action((cmdOpts: FilterOptions) => {
+			const filter = toFilter(cmdOpts)
+			if (!filter.provider && !filter.category && !filter.symbol) {
+				const count = cache.size()
+				cache.clear()
+				console.log(`Cleared ${count} cache entries.`)
+				return
+			}
+			console.log(`Cleared ${cache.remove(filter)} cache entries.`)
+		})
+
+	cmd
+		.command('purge')
+		.description('Remove expired cache entries')
+		.action(() => {
+			console.log(`Purged ${cache.purge()} expired cache entries.`)
+		})
+}
@@ -1,5 +1,56 @@
+import { resolve } from 'node:path'
 import type { Command } from 'commander'
-import { getConfigPath, loadConfig, saveConfig } from '../core/config.js'
+import {
+	getConfigPath,
+	loadConfig,
+	parseTtlSpec,
+	saveConfig,
+	validateConfig,
+} from '../core/config.js'
+import { getProviders } from '../core/router.js'
+import { DATA_CATEGORIES, type DataCategory } from '../providers/types.js'
+
+// `config set providerPriority.<category> a,b` — an empty list removes the override
+function setProviderPriority(category: string, value: string): void {
+	if (!DATA_CATEGORIES.includes(category as DataCategory)) {
+		console.error(`Invalid category: ${category}. Valid categories: ${DATA_CATEGORIES.join(', ')}`)
+		process.exit(1)
+	}
+	const sources = value
+		.split(',')
+		.map((s) => s.trim())
+		.filter(Boolean)
+	const capable = getProviders()
+		.filter((p) => p.capabilities.includes(category as DataCategory))
+		.map((p) => p.name)
+	const unknown = sources.filter((s) => !capable.includes(s))
+	if (unknown.length > 0) {
+		console.error(
+			`Sources not available for ${category}: ${unknown.join(', ')}. Valid sources: ${capable.join(', ')}`,
+		)
+		process.exit(1)
+	}
+
+	const { [category as DataCategory]: _, ...rest } = loadConfig().providerPriority ?? {}
+	saveConfig({ providerPriority: sources.length > 0 ? { ...rest, [category]: sources } : rest })
+	console.log(
+		sources.length > 0
+			? `Set providerPriority.${category} = ${sources.join(',')}`
+			: `Cleared providerPriority.${category}`,
+	)
+}
+
+// `config set plugins a,b` — relative paths are stored absolute, since the config
+// directory (not the current one) is what they'd otherwise resolve against
+function setPlugins(value: string): void {
+	const plugins = value
+		.split(',')
+		.map((s) => s.trim())
+		.filter(Boolean)
+		.map((spec) => (spec.startsWith('.') ? resolve(spec) : spec))
+	saveConfig({ plugins })
+	console.log(plugins.length > 0 ? `Set plugins = ${plugins.join(',')}` : 'Cleared plugins')
+}
 
 export function registerConfigCommand(program: Command): void {
 	const config = program.command('config').description('Manage configuration')
@@ -27,8 +78,67 @@ export function registerConfigCommand(program: Command): void {
 
 	config
 		.command('set <key> <value>')
-		.description('Set a configuration value')
+		.description(
+			'Set a configuration value (also cacheTtl.<category>, cacheTtl.<provider:category>, providerPriority.<category>, timeouts.<source>, plugins, caFile, mock)',
+		)
 		.action((key: string, value: string) => {
+			if (key.startsWith('providerPriority.')) {
+				setProviderPriority(key.slice('providerPriority.'.length), value)
+				return
+			}
+
+			if (key === 'plugins') {
+				setPlugins(value)
+				return
+			}
+
+			if (key.startsWith('cacheTtl.')) {
+				const ttlKey = key.slice('cacheTtl.'.length)
+				try {
+					parseTtlSpec(`${ttlKey}=${value}`)
+				} catch (err) {
+					console.error((err as Error).message)
+					process.exit(1)
+				}
+				saveConfig({ cacheTtl: { ...loadConfig().cacheTtl, [ttlKey]: value } })
+				console.log(`Set ${key} = ${value}`)
+				return
+			}
+
+			if (key.startsWith('timeouts.')) {
+				const provider = key.slice('timeouts.'.length)
+				const known = getProviders().map((p) => p.name)
+				if (provider !== '*' && !known.includes(provider)) {
+					console.error(`Unknown source: ${provider}. Valid sources: *, ${known.join(', ')}`)
+					process.exit(1)
+				}
+				const problems = validateConfig({ timeouts: { [provider]: value } })
+				if (problems.length > 0) {
+					console.error(problems.join('\n'))
+					process.exit(1)
+				}
+				saveConfig({ timeouts: { ...loadConfig().timeouts, [provider]: value } })
+				console.log(`Set ${key} = ${value}`)
+				return
+			}
+
+			if (key === 'caFile') {
+				// Store absolute, since later runs may start from another directory
+				saveConfig({ caFile: resolve(value) })
+				console.log(`Set caFile = ${resolve(value)}`)
+				return
+			}
+
+			if (key === 'mock') {
+				if (value !== 'true' && value !== 'false') {
+					console.error('mock must be true or false')
+					process.exit(1)
+				}
+				saveConfig({ mock: value === 'true' })
+				console.log(`Set mock = ${value}`)
+				return
+			}
+
 			const validKeys = [
 				'fredApiKey',
 				'coingeckoApiKey',
@@ -1,15 +1,21 @@
 import type { Command } from 'commander'
 import { loadConfig } from '../core/config.js'
+import { exitCodeFor } from '../core/errors.js'
 import {
 	formatCurrency,
+	formatJson,
 	formatKeyValue,
 	formatNumber,
 	formatPercent,
+	formatSource,
 	formatTable,
+	isMachineFormat,
+	numeric,
+	writeNdjson,
 } from '../core/formatter.js'
-import { route } from '../core/router.js'
+import { route, toRouteOptions } from '../core/router.js'
 import type { ProviderResult } from '../providers/types.js'
-import type { CryptoCandle, CryptoQuote, GlobalOptions } from '../types.js'
+import type { CryptoQuote, GlobalOptions } from '../types.js'
 
 export function registerCryptoCommand(program: Command): void {
 	const crypto = program.command('crypto').description('Cryptocurrency market data')
@@ -22,16 +28,13 @@ export function registerCryptoCommand(program: Command): void {
 
 			let result: ProviderResult<CryptoQuote[]> | undefined
 			try {
-				result = await route<CryptoQuote[]>(
+				result = await route(
 					'crypto',
 					'top',
 					{
 						limit: limit ? Number.parseInt(limit, 10) : 10,
 					},
-					{
-						source: opts.source,
-						noCache: opts.noCache,
-					},
+					toRouteOptions(opts),
 				)
 			} catch (err) {
 				const config = loadConfig()
@@ -43,7 +46,16 @@ export function registerCryptoCommand(program: Command): void {
 					const msg = err instanceof Error ? err.message : String(err)
 					console.error(`Failed to fetch market rankings: ${msg}`)
 				}
-				process.exitCode = 1
+				process.exitCode = exitCodeFor(err)
+				return
+			}
+
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
 				return
 			}
 
@@ -51,10 +63,10 @@ export function registerCryptoCommand(program: Command): void {
 				c.marketCapRank?.toString() ?? '',
 				c.symbol.toUpperCase(),
 				c.name ?? '',
-				formatCurrency(c.price),
-				c.changePercent24h != null ? formatPercent(c.changePercent24h) : '',
-				c.marketCap ? formatNumber(c.marketCap) : '',
-				c.volume24h ? formatNumber(c.volume24h) : '',
+				numeric(c.price, formatCurrency),
+				numeric(c.changePercent24h, formatPercent),
+				c.marketCap ? numeric(c.marketCap, formatNumber) : '',
+				c.volume24h ? numeric(c.volume24h, formatNumber) : '',
 			])
 
 			console.log(
@@ -64,8 +76,8 @@ export function registerCryptoCommand(program: Command): void {
 					opts.format,
 				),
 			)
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 			}
 		})
 
@@ -76,7 +88,7 @@ export function registerCryptoCommand(program: Command): void {
 		.option('-i, --interval <interval>', 'candle interval (1m, 5m, 15m, 1h, 4h, 1d, 1w)')
 		.action(async (symbol: string, cmdOpts: { days: string; interval?: string }) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<CryptoCandle[]>(
+			const result = await route(
 				'crypto',
 				'history',
 				{
@@ -84,26 +96,32 @@ export function registerCryptoCommand(program: Command): void {
 					days: Number.parseInt(cmdOpts.days, 10),
 					interval: cmdOpts.interval,
 				},
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
+				toRouteOptions(opts),
 			)
 
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
+				return
+			}
+
 			const rows = result.data.map((c) => [
 				c.time,
-				c.open.toFixed(2),
-				c.high.toFixed(2),
-				c.low.toFixed(2),
-				c.close.toFixed(2),
-				formatNumber(c.volume),
+				numeric(c.open, (n) => n.toFixed(2)),
+				numeric(c.high, (n) => n.toFixed(2)),
+				numeric(c.low, (n) => n.toFixed(2)),
+				numeric(c.close, (n) => n.toFixed(2)),
+				numeric(c.volume, formatNumber),
 			])
 
 			console.log(
 				formatTable(['Time', 'Open', 'High', 'Low', 'Close', 'Volume'], rows, opts.format),
 			)
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 			}
 		})
 
@@ -117,34 +135,39 @@ export function registerCryptoCommand(program: Command): void {
 			}
 
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<CryptoQuote>(
+			const result = await route(
 				'crypto',
 				'quote',
 				{
 					symbol: symbol.toUpperCase(),
 				},
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
+				toRouteOptions(opts),
 			)
 
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson([result.data])
+				return
+			}
+
 			const c = result.data
 			console.log(
 				formatKeyValue(
 					{
 						Symbol: c.symbol.toUpperCase(),
 						Name: c.name,
-						Price: formatCurrency(c.price),
-						'24h Change':
-							c.changePercent24h != null ? formatPercent(c.changePercent24h) : undefined,
-						'24h Volume': c.volume24h ? formatNumber(c.volume24h) : undefined,
-						'Market Cap': c.marketCap ? formatNumber(c.marketCap) : undefined,
+						Price: numeric(c.price, formatCurrency),
+						'24h Change': numeric(c.changePercent24h, formatPercent),
+						'24h Volume': c.volume24h ? numeric(c.volume24h, formatNumber) : undefined,
+						'Market Cap': c.marketCap ? numeric(c.marketCap, formatNumber) : undefined,
 						Rank: c.marketCapRank?.toString(),
-						'24h High': c.high24h ? formatCurrency(c.high24h) : undefined,
-						'24h Low': c.low24h ? formatCurrency(c.low24h) : undefined,
-						ATH: c.ath ? formatCurrency(c.ath) : undefined,
-						Source: result.source + (result.cached ? ' (cached)' : ''),
+						'24h High': c.high24h ? numeric(c.high24h, formatCurrency) : undefined,
+						'24h Low': c.low24h ? numeric(c.low24h, formatCurrency) : undefined,
+						ATH: c.ath ? numeric(c.ath, formatCurrency) : undefined,
+						Source: formatSource(result),
 					},
 					opts.format,
 				),
@@ -1,7 +1,15 @@
 import type { Command } from 'commander'
-import { formatCurrency, formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { DividendEvent, GlobalOptions } from '../types.js'
+import {
+	formatCurrency,
+	formatJson,
+	formatSource,
+	formatTable,
+	isMachineFormat,
+	numeric,
+	writeNdjson,
+} from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerDividendsCommand(program: Command): void {
 	program
@@ -9,26 +17,27 @@ export function registerDividendsCommand(program: Command): void {
 		.description('Get dividend history')
 		.action(async (symbol: string) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<DividendEvent[]>(
-				'dividends',
-				'get',
-				{ symbol },
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
-			)
+			const result = await route('dividends', 'get', { symbol }, toRouteOptions(opts))
 
-			if (result.data.length === 0) {
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
+				return
+			}
+			// CSV still gets its header row, like any other empty table
+			if (result.data.length === 0 && !isMachineFormat(opts.format)) {
 				console.log('No dividend data available.')
 				return
 			}
 
-			const rows = result.data.map((d) => [d.date, formatCurrency(d.amount)])
+			const rows = result.data.map((d) => [d.date, numeric(d.amount, formatCurrency)])
 
 			console.log(formatTable(['Date', 'Amount'], rows, opts.format))
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 			}
 		})
 }
@@ -1,7 +1,14 @@
 import type { Command } from 'commander'
-import { formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { EarningsData, GlobalOptions } from '../types.js'
+import {
+	formatJson,
+	formatSource,
+	formatTable,
+	isMachineFormat,
+	numeric,
+	writeNdjson,
+} from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerEarningsCommand(program: Command): void {
 	program
@@ -9,33 +16,34 @@ export function registerEarningsCommand(program: Command): void {
 		.description('Get earnings data and upcoming dates')
 		.action(async (symbol: string) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<EarningsData[]>(
-				'earnings',
-				'get',
-				{ symbol },
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
-			)
+			const result = await route('earnings', 'get', { symbol }, toRouteOptions(opts))
 
-			if (result.data.length === 0) {
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
+				return
+			}
+			if (result.data.length === 0 && !isMachineFormat(opts.format)) {
 				console.log('No earnings data available.')
 				return
 			}
 
 			const rows = result.data.map((e) => [
 				e.earningsDate ?? '',
-				e.epsEstimate != null ? e.epsEstimate.toFixed(2) : '',
-				e.epsActual != null ? e.epsActual.toFixed(2) : '',
-				e.epsEstimate != null && e.epsActual != null
-					? (e.epsActual - e.epsEstimate > 0 ? '+' : '') + (e.epsActual - e.epsEstimate).toFixed(2)
-					: '',
+				numeric(e.epsEstimate, (n) => n.toFixed(2)),
+				numeric(e.epsActual, (n) => n.toFixed(2)),
+				numeric(
+					e.epsEstimate != null && e.epsActual != null ? e.epsActual - e.epsEstimate : undefined,
+					(n) => (n > 0 ? '+' : '') + n.toFixed(2),
+				),
 			])
 
 			console.log(formatTable(['Date', 'EPS Est.', 'EPS Actual', 'Surprise'], rows, opts.format))
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 			}
 		})
 }
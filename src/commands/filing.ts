@@ -1,7 +1,13 @@
 import type { Command } from 'commander'
-import { formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { Filing, GlobalOptions } from '../types.js'
+import {
+	formatJson,
+	formatSource,
+	formatTable,
+	isMachineFormat,
+	writeNdjson,
+} from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerFilingCommand(program: Command): void {
 	program
@@ -12,7 +18,7 @@ export function registerFilingCommand(program: Command): void {
 		.option('-l, --limit <n>', 'number of filings', '20')
 		.action(async (symbol: string, cmdOpts: { type?: string; latest?: boolean; limit: string }) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<Filing[]>(
+			const result = await route(
 				'filing',
 				'list',
 				{
@@ -21,13 +27,18 @@ export function registerFilingCommand(program: Command): void {
 					latest: cmdOpts.latest,
 					limit: Number.parseInt(cmdOpts.limit, 10),
 				},
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
+				toRouteOptions(opts),
 			)
 
 			const filings = cmdOpts.latest ? result.data.slice(0, 1) : result.data
+			if (opts.format === 'json') {
+				console.log(formatJson({ ...result, data: filings }))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(filings)
+				return
+			}
 
 			const rows = filings.map((f) => [
 				f.form,
@@ -44,8 +55,8 @@ export function registerFilingCommand(program: Command): void {
 					opts.format,
 				),
 			)
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 			}
 		})
 }
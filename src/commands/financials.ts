@@ -1,7 +1,15 @@
 import type { Command } from 'commander'
-import { formatNumber, formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { FinancialStatement, GlobalOptions } from '../types.js'
+import {
+	formatJson,
+	formatNumber,
+	formatSource,
+	formatTable,
+	isMachineFormat,
+	numeric,
+	writeNdjson,
+} from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerFinancialsCommand(program: Command): void {
 	program
@@ -9,9 +17,9 @@ export function registerFinancialsCommand(program: Command): void {
 		.description('Get company financial statements')
 		.option('-p, --period <period>', 'annual or quarterly', 'annual')
 		.option('-l, --limit <n>', 'number of periods', '5')
-		.action(async (symbol: string, cmdOpts: { period: string; limit: string }) => {
+		.action(async (symbol: string, cmdOpts: { period: 'annual' | 'quarterly'; limit: string }) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<FinancialStatement[]>(
+			const result = await route(
 				'financials',
 				'get',
 				{
@@ -19,20 +27,26 @@ export function registerFinancialsCommand(program: Command): void {
 					period: cmdOpts.period,
 					limit: Number.parseInt(cmdOpts.limit, 10),
 				},
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
+				toRouteOptions(opts),
 			)
 
-			const fmt = (n: number | undefined) => (n != null ? formatNumber(n) : '')
+			const fmt = (n: number | undefined) => numeric(n, formatNumber)
+
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
+				return
+			}
 
 			const rows = result.data.map((f) => [
 				f.period,
 				f.date,
 				fmt(f.revenue),
 				fmt(f.netIncome),
-				f.eps?.toFixed(2) ?? '',
+				numeric(f.eps, (n) => n.toFixed(2)),
 				fmt(f.totalAssets),
 				fmt(f.stockholdersEquity),
 			])
@@ -44,8 +58,8 @@ export function registerFinancialsCommand(program: Command): void {
 					opts.format,
 				),
 			)
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 			}
 		})
 }
@@ -1,7 +1,16 @@
 import type { Command } from 'commander'
-import { formatCurrency, formatNumber, formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { GlobalOptions, HistoricalQuote } from '../types.js'
+import {
+	formatCurrency,
+	formatJson,
+	formatNumber,
+	formatSource,
+	formatTable,
+	isMachineFormat,
+	numeric,
+	writeNdjson,
+} from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerHistoryCommand(program: Command): void {
 	program
@@ -10,33 +19,39 @@ export function registerHistoryCommand(program: Command): void {
 		.option('-d, --days <n>', 'number of days', '30')
 		.action(async (symbol: string, cmdOpts: { days: string }) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<HistoricalQuote[]>(
+			const result = await route(
 				'history',
 				'get',
 				{
 					symbol,
 					days: Number.parseInt(cmdOpts.days, 10),
 				},
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
+				toRouteOptions(opts),
 			)
 
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
+				return
+			}
+
 			const rows = result.data.map((h) => [
 				h.date,
-				formatCurrency(h.open),
-				formatCurrency(h.high),
-				formatCurrency(h.low),
-				formatCurrency(h.close),
-				formatNumber(h.volume, 0),
+				numeric(h.open, formatCurrency),
+				numeric(h.high, formatCurrency),
+				numeric(h.low, formatCurrency),
+				numeric(h.close, formatCurrency),
+				numeric(h.volume, (n) => formatNumber(n, 0)),
 			])
 
 			console.log(
 				formatTable(['Date', 'Open', 'High', 'Low', 'Close', 'Volume'], rows, opts.format),
 			)
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 			}
 		})
 }
@@ -1,7 +1,13 @@
 import type { Command } from 'commander'
-import { formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { GlobalOptions, InsiderTransaction } from '../types.js'
+import {
+	formatJson,
+	formatSource,
+	formatTable,
+	isMachineFormat,
+	writeNdjson,
+} from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerInsidersCommand(program: Command): void {
 	program
@@ -10,19 +16,25 @@ export function registerInsidersCommand(program: Command): void {
 		.option('-l, --limit <n>', 'number of filings', '20')
 		.action(async (symbol: string, cmdOpts: { limit: string }) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<InsiderTransaction[]>(
+			const result = await route(
 				'insiders',
 				'list',
 				{
 					symbol,
 					limit: Number.parseInt(cmdOpts.limit, 10),
 				},
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
+				toRouteOptions(opts),
 			)
 
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
+				return
+			}
+
 			const rows = result.data.map((t) => [
 				t.name,
 				t.transactionDate,
@@ -31,8 +43,8 @@ export function registerInsidersCommand(program: Command): void {
 			])
 
 			console.log(formatTable(['Filer', 'Filed', 'Form', 'Description'], rows, opts.format))
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 				console.log(
 					'Note: For transaction details (shares, price), view the actual Form 4 filing on SEC.gov.',
 				)
@@ -1,42 +1,39 @@
 import type { Command } from 'commander'
-import { formatKeyValue, formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
+import {
+	formatJson,
+	formatKeyValue,
+	formatSource,
+	formatTable,
+	numeric,
+	writeNdjson,
+} from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { ProviderResult } from '../providers/types.js'
 import type { GlobalOptions, MacroSeries, OutputFormat } from '../types.js'
 
-// FRED search returns this shape (not SearchResult)
-interface FredSearchResult {
-	id: string
-	title: string
-	units: string
-	frequency: string
-	seasonal_adjustment: string
-	popularity: number
+// One line per observation, each naming its series so merged streams stay readable
+function* observations(series: MacroSeries) {
+	for (const point of series.data) yield { series: series.id, ...point }
 }
 
-function displaySeries(
-	series: MacroSeries,
-	source: string,
-	cached: boolean,
+async function displaySeries(
+	result: ProviderResult<MacroSeries>,
 	format: OutputFormat,
-): void {
+): Promise<void> {
+	const series = result.data
 	if (format === 'json') {
-		// Single combined JSON object for machine consumption
-		console.log(
-			JSON.stringify(
-				{
-					series: series.id,
-					title: series.title,
-					units: series.units,
-					frequency: series.frequency,
-					seasonalAdjustment: series.seasonalAdjustment,
-					source,
-					cached,
-					data: series.data,
-				},
-				null,
-				2,
-			),
-		)
+		console.log(formatJson(result))
+		return
+	}
+	if (format === 'ndjson') {
+		await writeNdjson(observations(series))
+		return
+	}
+
+	const rows = series.data.map((d) => [d.date, numeric(d.value, (n) => n.toString())])
+	if (format === 'csv') {
+		// Just the observations, so the output loads as one table
+		console.log(formatTable(['Date', 'Value'], rows, format))
 		return
 	}
 
@@ -53,9 +50,8 @@ function displaySeries(
 		),
 	)
 	console.log()
-	const rows = series.data.map((d) => [d.date, d.value.toString()])
 	console.log(formatTable(['Date', 'Value'], rows, format))
-	console.log(`\nSource: ${source}${cached ? ' (cached)' : ''}`)
+	console.log(`\nSource: ${formatSource(result)}`)
 }
 
 export function registerMacroCommand(program: Command): void {
@@ -67,19 +63,25 @@ export function registerMacroCommand(program: Command): void {
 		.option('-l, --limit <n>', 'number of results', '20')
 		.action(async (query: string, cmdOpts: { limit: string }) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<FredSearchResult[]>(
+			const result = await route(
 				'macro',
 				'search',
 				{
 					query,
 					limit: Number.parseInt(cmdOpts.limit, 10),
 				},
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
+				toRouteOptions(opts),
 			)
 
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
+				return
+			}
+
 			const rows = result.data.map((r) => [r.id, r.title, r.frequency ?? '', r.units ?? ''])
 			console.log(formatTable(['Series ID', 'Title', 'Frequency', 'Units'], rows, opts.format))
 		})
@@ -108,7 +110,7 @@ export function registerMacroCommand(program: Command): void {
 					cmdOpts.country && cmdOpts.country.toUpperCase() !== 'US'
 						? (opts.source ?? 'worldbank')
 						: opts.source
-				const result = await route<MacroSeries>(
+				const result = await route(
 					'macro',
 					'get',
 					{
@@ -118,12 +120,9 @@ export function registerMacroCommand(program: Command): void {
 						limit: cmdOpts.limit ? Number.parseInt(cmdOpts.limit, 10) : undefined,
 						country: cmdOpts.country,
 					},
-					{
-						source,
-						noCache: opts.noCache,
-					},
+					{ ...toRouteOptions(opts), source },
 				)
-				displaySeries(result.data, result.source, result.cached, opts.format)
+				await displaySeries(result, opts.format)
 			},
 		)
 }
@@ -0,0 +1,23 @@
+import type { Command } from 'commander'
+import { InvalidArgumentError } from '../core/errors.js'
+import { MOCK_SERVER_GAPS, MOCK_SERVER_HOSTS, startMockServer } from '../providers/mock-server.js'
+
+export function registerMockServerCommand(program: Command): void {
+	program
+		.command('mock-server')
+		.description('Run a local server imitating the Yahoo, SEC EDGAR, FRED and Binance APIs')
+		.option('-p, --port <port>', 'port to listen on (default: any free port)')
+		.option('--host <host>', 'interface to bind to', '127.0.0.1')
+		.action(async (cmdOpts: { port?: string; host: string }) => {
+			const port = cmdOpts.port === undefined ? 0 : Number(cmdOpts.port)
+			if (!Number.isInteger(port) || port < 0 || port > 65_535) {
+				throw new InvalidArgumentError(`Invalid port: ${cmdOpts.port}`)
+			}
+			const server = await startMockServer({ port, host: cmdOpts.host })
+			console.log(`Mock server listening on ${server.url}`)
+			console.log(`Imitating: ${MOCK_SERVER_HOSTS.join(', ')}`)
+			console.log(`Point omd at it with: OMD_MOCK_SERVER=${server.url} omd <command>`)
+			console.log(`Not imitated: ${MOCK_SERVER_GAPS.join(', ')}`)
+			console.log('FRED accepts any API key. Press Ctrl+C to stop.')
+		})
+}
@@ -1,7 +1,16 @@
 import type { Command } from 'commander'
-import { formatCurrency, formatNumber, formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { GlobalOptions, OptionContract } from '../types.js'
+import {
+	formatCurrency,
+	formatJson,
+	formatNumber,
+	formatSource,
+	formatTable,
+	isMachineFormat,
+	numeric,
+	writeNdjson,
+} from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerOptionsCommand(program: Command): void {
 	program
@@ -10,31 +19,31 @@ export function registerOptionsCommand(program: Command): void {
 		.option('-t, --type <type>', 'filter by call or put')
 		.action(async (symbol: string, cmdOpts: { type?: string }) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<OptionContract[]>(
-				'options',
-				'get',
-				{ symbol },
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
-			)
+			const result = await route('options', 'get', { symbol }, toRouteOptions(opts))
 
 			let contracts = result.data
 			if (cmdOpts.type === 'call' || cmdOpts.type === 'put') {
 				contracts = contracts.filter((c) => c.type === cmdOpts.type)
 			}
+			if (opts.format === 'json') {
+				console.log(formatJson({ ...result, data: contracts }))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(contracts)
+				return
+			}
 
 			const rows = contracts.map((c) => [
 				c.type.toUpperCase(),
 				c.expiration,
-				formatCurrency(c.strike),
-				c.lastPrice != null ? formatCurrency(c.lastPrice) : '',
-				c.bid != null ? formatCurrency(c.bid) : '',
-				c.ask != null ? formatCurrency(c.ask) : '',
-				c.volume != null ? formatNumber(c.volume, 0) : '',
-				c.openInterest != null ? formatNumber(c.openInterest, 0) : '',
-				c.impliedVolatility != null ? `${(c.impliedVolatility * 100).toFixed(1)}%` : '',
+				numeric(c.strike, formatCurrency),
+				numeric(c.lastPrice, formatCurrency),
+				numeric(c.bid, formatCurrency),
+				numeric(c.ask, formatCurrency),
+				numeric(c.volume, (n) => formatNumber(n, 0)),
+				numeric(c.openInterest, (n) => formatNumber(n, 0)),
+				numeric(c.impliedVolatility, (n) => `${(n * 100).toFixed(1)}%`),
 			])
 
 			console.log(
@@ -44,8 +53,8 @@ export function registerOptionsCommand(program: Command): void {
 					opts.format,
 				),
 			)
-			if (opts.format !== 'json') {
-				console.log(`\nSource: ${result.source}${result.cached ? ' (cached)' : ''}`)
+			if (!isMachineFormat(opts.format)) {
+				console.log(`\nSource: ${formatSource(result)}`)
 			}
 		})
 }
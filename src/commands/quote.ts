@@ -1,13 +1,19 @@
 import type { Command } from 'commander'
+import { EXIT_CODES, exitCodeFor } from '../core/errors.js'
 import {
 	formatCurrency,
+	formatJson,
 	formatKeyValue,
 	formatNumber,
 	formatPercent,
+	formatSource,
 	formatTable,
+	numeric,
+	toEnvelope,
+	writeNdjson,
 } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { GlobalOptions, QuoteResult } from '../types.js'
+import { route, routeMany, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerQuoteCommand(program: Command): void {
 	program
@@ -17,87 +23,119 @@ export function registerQuoteCommand(program: Command): void {
 			const opts = program.opts<GlobalOptions>()
 
 			if (symbols.length === 1) {
-				const result = await route<QuoteResult>(
-					'quote',
-					'get',
-					{ symbol: symbols[0] },
-					{
-						source: opts.source,
-						noCache: opts.noCache,
-					},
-				)
+				const result = await route('quote', 'get', { symbol: symbols[0] }, toRouteOptions(opts))
+				if (opts.format === 'json') {
+					console.log(formatJson(result))
+					return
+				}
+				if (opts.format === 'ndjson') {
+					await writeNdjson([result.data])
+					return
+				}
 				const q = result.data
 				console.log(
 					formatKeyValue(
 						{
 							Symbol: q.symbol,
-							Price: formatCurrency(q.price),
-							Change: `${formatCurrency(q.change)} (${formatPercent(q.changePercent)})`,
-							Volume: q.volume ? formatNumber(q.volume, 0) : undefined,
-							'Market Cap': q.marketCap ? formatNumber(q.marketCap) : undefined,
-							'Day Range':
-								q.dayLow && q.dayHigh
-									? `${formatCurrency(q.dayLow)} — ${formatCurrency(q.dayHigh)}`
-									: undefined,
-							'52w Range':
-								q.low52w && q.high52w
-									? `${formatCurrency(q.low52w)} — ${formatCurrency(q.high52w)}`
-									: undefined,
-							Open: q.open ? formatCurrency(q.open) : undefined,
-							'Prev Close': q.previousClose ? formatCurrency(q.previousClose) : undefined,
-							Source: result.source + (result.cached ? ' (cached)' : ''),
+							Price: numeric(q.price, formatCurrency),
+							// CSV gets each number in a column of its own, as in the multi-symbol table
+							...(opts.format === 'csv'
+								? {
+										Change: numeric(q.change, formatCurrency),
+										'Change %': numeric(q.changePercent, formatPercent),
+									}
+								: {
+										Change: numeric(
+											q.change,
+											(n) => `${formatCurrency(n)} (${formatPercent(q.changePercent)})`,
+										),
+									}),
+							Volume: q.volume ? numeric(q.volume, (n) => formatNumber(n, 0)) : undefined,
+							'Market Cap': q.marketCap ? numeric(q.marketCap, formatNumber) : undefined,
+							...(opts.format === 'csv'
+								? {
+										'Day Low': numeric(q.dayLow, formatCurrency),
+										'Day High': numeric(q.dayHigh, formatCurrency),
+										'52w Low': numeric(q.low52w, formatCurrency),
+										'52w High': numeric(q.high52w, formatCurrency),
+									}
+								: {
+										'Day Range':
+											q.dayLow && q.dayHigh
+												? `${formatCurrency(q.dayLow)} — ${formatCurrency(q.dayHigh)}`
+												: undefined,
+										'52w Range':
+											q.low52w && q.high52w
+												? `${formatCurrency(q.low52w)} — ${formatCurrency(q.high52w)}`
+												: undefined,
+									}),
+							Open: q.open ? numeric(q.open, formatCurrency) : undefined,
+							'Prev Close': q.previousClose ? numeric(q.previousClose, formatCurrency) : undefined,
+							Source: formatSource(result),
 						},
 						opts.format,
 					),
 				)
 			} else {
-				// Multi-symbol: try batch first, fall back to concurrent individual requests
-				let results: { data: QuoteResult; source: string; cached: boolean }[]
-				try {
-					const batchResult = await route<QuoteResult[]>(
-						'quote',
-						'get',
-						{ symbols },
-						{ source: opts.source, noCache: opts.noCache },
-					)
-					results = batchResult.data.map((q) => ({
-						data: q,
-						source: batchResult.source,
-						cached: batchResult.cached,
-					}))
-				} catch {
-					// Fall back to concurrent individual requests
-					results = await Promise.all(
-						symbols.map((s) =>
-							route<QuoteResult>(
-								'quote',
-								'get',
-								{ symbol: s },
-								{ source: opts.source, noCache: opts.noCache },
-							),
-						),
-					)
-				}
+				// Multi-symbol: one batch call where the source has one, else individual requests
+				const items = await routeMany(
+					'quote',
+					'get',
+					symbols.map((symbol) => ({ symbol })),
+					toRouteOptions(opts),
+				)
+				const results = items.flatMap((item) => (item.ok ? [item.result] : []))
+				const failures = items.flatMap((item) =>
+					item.ok ? [] : [{ symbol: item.args.symbol, error: item.error }],
+				)
 
+				const headers = ['Symbol', 'Price', 'Change', 'Change %', 'Volume', 'Market Cap', 'Source']
 				const rows = results.map((r) => {
 					const q = r.data
 					return [
 						q.symbol,
-						formatCurrency(q.price),
-						formatPercent(q.changePercent),
-						q.volume ? formatNumber(q.volume, 0) : '',
-						q.marketCap ? formatNumber(q.marketCap) : '',
+						numeric(q.price, formatCurrency),
+						numeric(q.change, formatCurrency),
+						numeric(q.changePercent, formatPercent),
+						q.volume ? numeric(q.volume, (n) => formatNumber(n, 0)) : '',
+						q.marketCap ? numeric(q.marketCap, formatNumber) : '',
 						r.source,
 					]
 				})
 
-				console.log(
-					formatTable(
-						['Symbol', 'Price', 'Change', 'Volume', 'Mkt Cap', 'Source'],
-						rows,
-						opts.format,
-					),
-				)
+				if (opts.format === 'json') {
+					const errors = failures.map((f) => ({
+						symbol: f.symbol,
+						error: f.error.message,
+						exitCode: exitCodeFor(f.error),
+					}))
+					// One envelope for the lot; each quote still names its own source
+					const fetched = results.map((r) => r.cachedAt ?? Date.now())
+					const envelope = toEnvelope({
+						data: results.map((r) => r.data),
+						source: [...new Set(results.map((r) => r.source))].join(', '),
+						cached: results.length > 0 && results.every((r) => r.cached),
+						cachedAt: fetched.length > 0 ? Math.min(...fetched) : undefined,
+						stale: results.some((r) => r.stale) || undefined,
+					})
+					console.log(JSON.stringify({ ...envelope, errors }, null, 2))
+				} else {
+					if (opts.format === 'ndjson') {
+						await writeNdjson(results.map((r) => r.data))
+					} else if (rows.length > 0 || opts.format === 'csv') {
+						console.log(formatTable(headers, rows, opts.format))
+					}
+					// On stderr, so the table stays clean for pipes
+					if (failures.length > 0) {
+						console.error(`\nFailed (${failures.length} of ${items.length}):`)
+						for (const f of failures) console.error(`  ${f.symbol}: ${f.error.message}`)
+					}
+				}
+
+				if (failures.length > 0) {
+					process.exitCode =
+						results.length > 0 ? EXIT_CODES.partial : exitCodeFor(failures[0].error)
+				}
 			}
 		})
 }
@@ -1,7 +1,7 @@
 import type { Command } from 'commander'
-import { formatTable } from '../core/formatter.js'
-import { route } from '../core/router.js'
-import type { GlobalOptions, SearchResult } from '../types.js'
+import { formatJson, formatTable, writeNdjson } from '../core/formatter.js'
+import { route, toRouteOptions } from '../core/router.js'
+import type { GlobalOptions } from '../types.js'
 
 export function registerSearchCommand(program: Command): void {
 	program
@@ -9,15 +9,16 @@ export function registerSearchCommand(program: Command): void {
 		.description('Search for companies, tickers, or assets')
 		.action(async (query: string) => {
 			const opts = program.opts<GlobalOptions>()
-			const result = await route<SearchResult[]>(
-				'search',
-				'search',
-				{ query },
-				{
-					source: opts.source,
-					noCache: opts.noCache,
-				},
-			)
+			const result = await route('search', 'search', { query }, toRouteOptions(opts))
+
+			if (opts.format === 'json') {
+				console.log(formatJson(result))
+				return
+			}
+			if (opts.format === 'ndjson') {
+				await writeNdjson(result.data)
+				return
+			}
 
 			const rows = result.data.map((r) => [
 				r.symbol,
@@ -1,8 +1,26 @@
 import type { Command } from 'commander'
-import { formatTable } from '../core/formatter.js'
-import { getProviders } from '../core/router.js'
+import { getBreakerStatus } from '../core/circuit-breaker.js'
+import { formatDuration, formatTable } from '../core/formatter.js'
+import { type WindowStatus, getWindowStatus } from '../core/rate-limiter.js'
+import { getProviders, getProvidersForCategory } from '../core/router.js'
+import { DATA_CATEGORIES } from '../providers/types.js'
 import type { GlobalOptions } from '../types.js'
 
+function windowUnit(windowMs: number): string {
+	if (windowMs < 2000) return 'sec'
+	if (windowMs < 120_000) return 'min'
+	if (windowMs < 7_200_000) return 'hour'
+	if (windowMs < 28 * 86_400_000) return 'day'
+	return 'month'
+}
+
+function formatRemaining(w: WindowStatus): string {
+	const remaining = `${w.remaining}/${windowUnit(w.windowMs)}`
+	// Only worth mentioning the reset once a quota is running low
+	if (w.resetInMs == null || w.remaining > w.maxRequests / 10) return remaining
+	return `${remaining} (resets in ${formatDuration(w.resetInMs)})`
+}
+
 export function registerSourcesCommand(program: Command): void {
 	program
 		.command('sources')
@@ -10,22 +28,56 @@ export function registerSourcesCommand(program: Command): void {
 		.action(async () => {
 			const opts = program.opts<GlobalOptions>()
 			const providers = getProviders()
+			// 1-based position of each source in the effective fallback order, per category
+			const positions = new Map<string, string[]>()
+			for (const category of DATA_CATEGORIES) {
+				getProvidersForCategory(category).forEach((p, i) => {
+					positions.set(p.name, [...(positions.get(p.name) ?? []), `${category} #${i + 1}`])
+				})
+			}
 
 			const rows = providers.map((p) => {
-				const windowMs = p.rateLimits.windowMs
-				const unit = windowMs < 2000 ? 'sec' : windowMs < 120_000 ? 'min' : 'day'
-				const rateStr = `${p.rateLimits.maxRequests}/${unit}`
+				const windows = getWindowStatus(p.name, p.rateLimits)
+				const rateStr = windows.map((w) => `${w.maxRequests}/${windowUnit(w.windowMs)}`).join(', ')
+				const remaining = windows.map(formatRemaining).join(', ')
+				const tripped = getBreakerStatus(p.name).filter((b) => b.state !== 'closed')
+				const circuit =
+					tripped.length === 0
+						? 'closed'
+						: tripped
+								.map((b) =>
+									b.retryInMs != null
+										? `${b.category}: open (${formatDuration(b.retryInMs)})`
+										: `${b.category}: ${b.state}`,
+								)
+								.join(', ')
 				return [
 					p.name,
 					p.isEnabled() ? 'enabled' : 'disabled',
 					p.requiresKey ? (p.isEnabled() ? 'configured' : 'missing') : 'none',
 					p.capabilities.join(', '),
+					positions.get(p.name)?.join(', ') ?? '-',
 					rateStr,
+					remaining,
+					circuit,
 				]
 			})
 
 			console.log(
-				formatTable(['Source', 'Status', 'API Key', 'Categories', 'Rate Limit'], rows, opts.format),
+				formatTable(
+					[
+						'Source',
+						'Status',
+						'API Key',
+						'Categories',
+						'Priority',
+						'Rate Limit',
+						'Remaining',
+						'Circuit',
+					],
+					rows,
+					opts.format,
+				),
 			)
 		})
 }
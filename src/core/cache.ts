@@ -1,10 +1,41 @@
+import { createHash } from 'node:crypto'
+import { readdirSync, statSync } from 'node:fs'
+import { join } from 'node:path'
 import type { DataCategory } from '../providers/types.js'
+import { getCacheDir, loadConfig, parseDuration } from './config.js'
+import { readJsonFile, removeFile, withFileLock, writeFileAtomic } from './fs.js'
 
-interface CacheEntry<T> {
+export interface CacheEntry<T = unknown> {
+	provider: string
+	category: DataCategory
+	args: Record<string, unknown>
 	data: T
+	storedAt: number
 	expiresAt: number
 }
 
+export interface CacheCounters {
+	hits: number
+	misses: number
+	/** Calls that joined an identical in-flight request instead of fetching */
+	coalesced?: number
+}
+
+// Storage backend behind the public API. Keys are already namespaced by
+// provider, category and args; stores only need to persist entries and counters.
+export interface CacheStore {
+	get(key: string): CacheEntry | undefined
+	set(key: string, entry: CacheEntry): void
+	delete(key: string): void
+	clear(): void
+	size(): number
+	entries(): [string, CacheEntry][]
+	readStats(): Record<string, CacheCounters>
+	writeStats(stats: Record<string, CacheCounters>): void
+	/** Read, change and write the counters as one step, safe against concurrent writers */
+	updateStats(update: (stats: Record<string, CacheCounters>) => void): void
+}
+
 const TTL: Record<DataCategory, number> = {
 	search: 300_000, // 5 min
 	quote: 30_000, // 30s
@@ -20,9 +51,185 @@ const TTL: Record<DataCategory, number> = {
 }
 
 const MAX_ENTRIES = 500
-const store = new Map<string, CacheEntry<unknown>>()
+const MAX_BYTES = 50 * 1024 * 1024 // 50 MB
+
+// --- In-memory store ---
+
+export function createMemoryStore(maxEntries = MAX_ENTRIES): CacheStore {
+	const entries = new Map<string, CacheEntry>()
+	let stats: Record<string, CacheCounters> = {}
+
+	function evictIfNeeded(): void {
+		if (entries.size <= maxEntries) return
+		const now = Date.now()
+		for (const [key, entry] of entries) {
+			if (entry.expiresAt <= now) entries.delete(key)
+		}
+		if (entries.size <= maxEntries) return
+		// Remove oldest entries
+		const sorted = [...entries.entries()]
+		sorted.sort((a, b) => a[1].expiresAt - b[1].expiresAt)
+		const toRemove = sorted.slice(0, sorted.length - maxEntries)
+		for (const [key] of toRemove) entries.delete(key)
+	}
+
+	return {
+		get: (key) => entries.get(key),
+		set(key, entry) {
+			entries.set(key, entry)
+			evictIfNeeded()
+		},
+		delete: (key) => {
+			entries.delete(key)
+		},
+		clear: () => entries.clear(),
+		size: () => entries.size,
+		entries: () => [...entries.entries()],
+		readStats: () => structuredClone(stats),
+		writeStats: (next) => {
+			stats = structuredClone(next)
+		},
+		updateStats: (update) => update(stats),
+	}
+}
+
+// --- File store (one JSON file per entry, plus a counters file) ---
+
+const ENTRY_FILE = /^[0-9a-f]{64}\.json$/
+const STATS_FILE = 'stats.json'
+
+interface StoredEntry extends CacheEntry {
+	key: string
+}
+
+export interface FileStoreOptions {
+	dir?: string
+	maxBytes?: number
+}
+
+export function createFileStore(options: FileStoreOptions = {}): CacheStore {
+	const dir = options.dir ?? getCacheDir()
+	const maxBytes = options.maxBytes ?? MAX_BYTES
+
+	const statsPath = join(dir, STATS_FILE)
+	const pathFor = (key: string) =>
+		join(dir, `${createHash('sha256').update(key).digest('hex')}.json`)
+
+	function listFiles(): string[] {
+		try {
+			return readdirSync(dir)
+				.filter((f) => ENTRY_FILE.test(f))
+				.map((f) => join(dir, f))
+		} catch {
+			return []
+		}
+	}
+
+	function evictIfNeeded(): void {
+		const files: { path: string; size: number; mtimeMs: number }[] = []
+		let total = 0
+		for (const path of listFiles()) {
+			try {
+				const { size, mtimeMs } = statSync(path)
+				files.push({ path, size, mtimeMs })
+				total += size
+			} catch {
+				// Removed by another process mid-scan
+			}
+		}
+		if (total <= maxBytes) return
+
+		// Drop expired entries first, then the least recently written
+		const now = Date.now()
+		const live: typeof files = []
+		for (const file of files) {
+			const entry = readJsonFile<StoredEntry>(file.path)
+			if (!entry || entry.expiresAt <= now) {
+				removeFile(file.path)
+				total -= file.size
+			} else {
+				live.push(file)
+			}
+		}
+		live.sort((a, b) => a.mtimeMs - b.mtimeMs)
+		for (const file of live) {
+			if (total <= maxBytes) break
+			removeFile(file.path)
+			total -= file.size
+		}
+	}
 
-function makeKey(provider: string, category: DataCategory, args: Record<string, unknown>): string {
+	return {
+		get(key) {
+			const entry = readJsonFile<StoredEntry>(pathFor(key))
+			// Guard against hash collisions and hand-edited files
+			if (!entry || entry.key !== key) return undefined
+			const { key: _, ...rest } = entry
+			return rest
+		},
+		set(key, entry) {
+			try {
+				writeFileAtomic(pathFor(key), JSON.stringify({ key, ...entry }))
+				evictIfNeeded()
+			} catch {
+				// Cache is best-effort — never fail a request because the disk is unwritable
+			}
+		},
+		delete: (key) => removeFile(pathFor(key)),
+		clear() {
+			for (const path of listFiles()) removeFile(path)
+		},
+		size: () => listFiles().length,
+		entries() {
+			const result: [string, CacheEntry][] = []
+			for (const path of listFiles()) {
+				const entry = readJsonFile<StoredEntry>(path)
+				if (!entry) continue
+				const { key, ...rest } = entry
+				result.push([key, rest])
+			}
+			return result
+		},
+		readStats: () => readJsonFile<Record<string, CacheCounters>>(statsPath) ?? {},
+		writeStats(stats) {
+			try {
+				writeFileAtomic(statsPath, JSON.stringify(stats))
+			} catch {
+				// Counters are informational only
+			}
+		},
+		updateStats(update) {
+			try {
+				// Parallel runs bump the same file; without the lock they lose each other's counts
+				withFileLock(statsPath, () => {
+					const stats = readJsonFile<Record<string, CacheCounters>>(statsPath) ?? {}
+					update(stats)
+					writeFileAtomic(statsPath, JSON.stringify(stats))
+				})
+			} catch {
+				// Counters are informational only
+			}
+		},
+	}
+}
+
+// --- Public API ---
+
+let store: CacheStore = createMemoryStore()
+
+export function setStore(next: CacheStore): void {
+	store = next
+}
+
+export function getStore(): CacheStore {
+	return store
+}
+
+export function makeKey(
+	provider: string,
+	category: DataCategory,
+	args: Record<string, unknown>,
+): string {
 	const sorted = Object.keys(args)
 		.sort()
 		.map((k) => `${k}=${JSON.stringify(args[k])}`)
@@ -30,33 +237,62 @@ function makeKey(provider: string, category: DataCategory, args: Record<string,
 	return `${provider}:${category}:${sorted}`
 }
 
-function evictIfNeeded(): void {
-	if (store.size <= MAX_ENTRIES) return
+// TTL overrides for this process (e.g. from --cache-ttl); same key shape as config cacheTtl
+let ttlOverrides: Record<string, number> = {}
+
+export function setTtlOverrides(overrides: Record<string, number>): void {
+	ttlOverrides = overrides
+}
+
+function lookupTtl<V>(
+	table: Record<string, V> | undefined,
+	provider: string,
+	category: DataCategory,
+): V | undefined {
+	if (!table) return undefined
+	return table[`${provider}:${category}`] ?? table[category] ?? table['*']
+}
+
+/** Effective TTL in ms: runtime overrides, then config cacheTtl, then built-in defaults. */
+export function resolveTtl(provider: string, category: DataCategory): number {
+	const override = lookupTtl(ttlOverrides, provider, category)
+	if (override !== undefined) return override
+	const configured = lookupTtl(loadConfig().cacheTtl, provider, category)
+	return configured !== undefined ? parseDuration(configured) : TTL[category]
+}
+
+export interface CacheHit<T> {
+	data: T
+	storedAt: number
+	stale: boolean
+}
+
+/**
+ * Look up an entry. Expired entries are returned (marked stale) only while they
+ * are less than maxStaleMs past their expiry — used for stale-if-error fallback.
+ */
+export function lookup<T>(
+	provider: string,
+	category: DataCategory,
+	args: Record<string, unknown>,
+	maxStaleMs = 0,
+): CacheHit<T> | undefined {
+	const entry = store.get(makeKey(provider, category, args))
+	if (!entry) return undefined
 	const now = Date.now()
-	for (const [key, entry] of store) {
-		if (entry.expiresAt <= now) store.delete(key)
-	}
-	if (store.size <= MAX_ENTRIES) return
-	// Remove oldest entries
-	const entries = [...store.entries()]
-	entries.sort((a, b) => a[1].expiresAt - b[1].expiresAt)
-	const toRemove = entries.slice(0, entries.length - MAX_ENTRIES)
-	for (const [key] of toRemove) store.delete(key)
+	const stale = entry.expiresAt <= now
+	// Expired entries are kept until purge/eviction so they can still serve as fallback
+	if (stale && now - entry.expiresAt >= maxStaleMs) return undefined
+	return { data: entry.data as T, storedAt: entry.storedAt, stale }
 }
 
 export function get<T>(
 	provider: string,
 	category: DataCategory,
 	args: Record<string, unknown>,
+	options: { maxStaleMs?: number } = {},
 ): T | undefined {
-	const key = makeKey(provider, category, args)
-	const entry = store.get(key)
-	if (!entry) return undefined
-	if (entry.expiresAt <= Date.now()) {
-		store.delete(key)
-		return undefined
-	}
-	return entry.data as T
+	return lookup<T>(provider, category, args, options.maxStaleMs)?.data
 }
 
 export function set<T>(
@@ -65,10 +301,11 @@ export function set<T>(
 	args: Record<string, unknown>,
 	data: T,
 ): void {
+	const ttl = resolveTtl(provider, category)
+	if (ttl <= 0) return
 	const key = makeKey(provider, category, args)
-	const ttl = TTL[category]
-	store.set(key, { data, expiresAt: Date.now() + ttl })
-	evictIfNeeded()
+	const now = Date.now()
+	store.set(key, { provider, category, args, data, storedAt: now, expiresAt: now + ttl })
 }
 
 export function clear(): void {
@@ -76,5 +313,115 @@ export function clear(): void {
 }
 
 export function size(): number {
-	return store.size
+	return store.size()
+}
+
+// --- Counters ---
+
+function bump(provider: string, category: DataCategory, field: keyof CacheCounters): void {
+	const key = `${provider}:${category}`
+	store.updateStats((stats) => {
+		const counters = stats[key] ?? { hits: 0, misses: 0 }
+		counters[field] = (counters[field] ?? 0) + 1
+		stats[key] = counters
+	})
+}
+
+export function recordHit(provider: string, category: DataCategory): void {
+	bump(provider, category, 'hits')
+}
+
+export function recordMiss(provider: string, category: DataCategory): void {
+	bump(provider, category, 'misses')
+}
+
+export function recordCoalesced(provider: string, category: DataCategory): void {
+	bump(provider, category, 'coalesced')
+}
+
+export interface CacheStat extends CacheCounters {
+	provider: string
+	category: DataCategory
+}
+
+export function getStats(): CacheStat[] {
+	return Object.entries(store.readStats()).map(([key, counters]) => {
+		const idx = key.lastIndexOf(':')
+		return {
+			provider: key.slice(0, idx),
+			category: key.slice(idx + 1) as DataCategory,
+			...counters,
+		}
+	})
+}
+
+export function resetStats(): void {
+	store.writeStats({})
+}
+
+// --- Inspection and selective removal ---
+
+export interface CacheFilter {
+	provider?: string
+	category?: DataCategory
+	symbol?: string
+}
+
+export interface CacheEntryInfo {
+	provider: string
+	category: DataCategory
+	action?: string
+	args: Record<string, unknown>
+	expiresAt: number
+}
+
+function matchesSymbol(args: Record<string, unknown>, symbol: string): boolean {
+	const wanted = symbol.toUpperCase()
+	const values = [args.symbol, args.seriesId, ...(Array.isArray(args.symbols) ? args.symbols : [])]
+	return values.some((v) => typeof v === 'string' && v.toUpperCase() === wanted)
+}
+
+function matches(entry: CacheEntry, filter: CacheFilter): boolean {
+	if (filter.provider && entry.provider !== filter.provider) return false
+	if (filter.category && entry.category !== filter.category) return false
+	if (filter.symbol && !matchesSymbol(entry.args, filter.symbol)) return false
+	return true
+}
+
+export function list(filter: CacheFilter = {}): CacheEntryInfo[] {
+	return store
+		.entries()
+		.filter(([, entry]) => matches(entry, filter))
+		.map(([, entry]) => {
+			const { action, ...args } = entry.args
+			return {
+				provider: entry.provider,
+				category: entry.category,
+				action: action as string | undefined,
+				args,
+				expiresAt: entry.expiresAt,
+			}
+		})
+		.sort((a, b) => a.expiresAt - b.expiresAt)
+}
+
+export function remove(filter: CacheFilter): number {
+	let removed = 0
+	for (const [key, entry] of store.entries()) {
+		if (!matches(entry, filter)) continue
+		store.delete(key)
+		removed++
+	}
+	return removed
+}
+
+export function purge(): number {
+	const now = Date.now()
+	let removed = 0
+	for (const [key, entry] of store.entries()) {
+		if (entry.expiresAt > now) continue
+		store.delete(key)
+		removed++
+	}
+	return removed
 }
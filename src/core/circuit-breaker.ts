@@ -0,0 +1,140 @@
+import type { DataCategory } from '../providers/types.js'
+import { loadConfig, parseDuration } from './config.js'
+import { readJsonFile, writeFileAtomic } from './fs.js'
+
+export type BreakerState = 'closed' | 'open' | 'half-open'
+
+interface Breaker {
+	failures: number
+	openedAt?: number
+	// Set while the single post-cooldown trial request is in flight
+	trialStartedAt?: number
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3
+const DEFAULT_COOLDOWN_MS = 60_000
+
+let breakers = new Map<string, Breaker>()
+let statePath: string | undefined
+
+function settings(): { failureThreshold: number; cooldownMs: number } {
+	const cfg = loadConfig().circuitBreaker
+	return {
+		failureThreshold: cfg?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+		cooldownMs: cfg?.cooldown !== undefined ? parseDuration(cfg.cooldown) : DEFAULT_COOLDOWN_MS,
+	}
+}
+
+/** Share breaker state across processes through a JSON file (used by the CLI). */
+export function persistBreakersTo(path: string | undefined): void {
+	statePath = path
+}
+
+function load(): void {
+	if (!statePath) return
+	breakers = new Map(Object.entries(readJsonFile<Record<string, Breaker>>(statePath) ?? {}))
+}
+
+function save(): void {
+	if (!statePath) return
+	try {
+		writeFileAtomic(statePath, JSON.stringify(Object.fromEntries(breakers)))
+	} catch {
+		// Breaker state is advisory — losing it only means an extra retry
+	}
+}
+
+function keyOf(provider: string, category: DataCategory): string {
+	return `${provider}:${category}`
+}
+
+function stateOf(breaker: Breaker | undefined, now: number, cooldownMs: number): BreakerState {
+	if (!breaker?.openedAt) return 'closed'
+	return now - breaker.openedAt >= cooldownMs ? 'half-open' : 'open'
+}
+
+/**
+ * Whether a request to this provider may go ahead. Open breakers reject until the
+ * cooldown has passed; then exactly one trial request is let through.
+ */
+export function canAttempt(provider: string, category: DataCategory): boolean {
+	load()
+	const key = keyOf(provider, category)
+	const breaker = breakers.get(key)
+	const now = Date.now()
+	const { cooldownMs } = settings()
+	const state = stateOf(breaker, now, cooldownMs)
+	if (state === 'closed') return true
+	if (state === 'open' || !breaker) return false
+
+	// Half-open: allow a trial unless another one is already running (and not abandoned)
+	if (breaker.trialStartedAt && now - breaker.trialStartedAt < cooldownMs) return false
+	breaker.trialStartedAt = now
+	save()
+	return true
+}
+
+export function recordSuccess(provider: string, category: DataCategory): void {
+	load()
+	if (!breakers.delete(keyOf(provider, category))) return
+	save()
+}
+
+export function recordFailure(provider: string, category: DataCategory): void {
+	load()
+	const key = keyOf(provider, category)
+	const breaker = breakers.get(key) ?? { failures: 0 }
+	breaker.failures += 1
+	breaker.trialStartedAt = undefined
+	// A failed trial re-opens immediately; otherwise trip once the threshold is reached
+	if (breaker.openedAt || breaker.failures >= settings().failureThreshold) {
+		breaker.openedAt = Date.now()
+	}
+	breakers.set(key, breaker)
+	save()
+}
+
+export interface BreakerStatus {
+	category: DataCategory
+	state: BreakerState
+	failures: number
+	/** ms until a trial request is allowed (open breakers only) */
+	retryInMs?: number
+}
+
+/** Breakers that are not closed, or have recorded failures, for a provider. */
+export function getBreakerStatus(provider: string): BreakerStatus[] {
+	load()
+	const now = Date.now()
+	const { cooldownMs } = settings()
+	const result: BreakerStatus[] = []
+	for (const [key, breaker] of breakers) {
+		const idx = key.lastIndexOf(':')
+		if (key.slice(0, idx) !== provider) continue
+		const state = stateOf(breaker, now, cooldownMs)
+		result.push({
+			category: key.slice(idx + 1) as DataCategory,
+			state,
+			failures: breaker.failures,
+			...(state === 'open' && { retryInMs: (breaker.openedAt ?? now) + cooldownMs - now }),
+		})
+	}
+	return result
+}
+
+export function getBreakerState(provider: string, category: DataCategory): BreakerState {
+	load()
+	return stateOf(breakers.get(keyOf(provider, category)), Date.now(), settings().cooldownMs)
+}
+
+export function resetBreaker(provider?: string): void {
+	load()
+	if (provider === undefined) {
+		breakers.clear()
+	} else {
+		for (const key of [...breakers.keys()]) {
+			if (key.startsWith(`${provider}:`)) breakers.delete(key)
+		}
+	}
+	save()
+}
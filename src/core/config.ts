@@ -1,6 +1,8 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
 import { homedir } from 'node:os'
 import { join, resolve } from 'node:path'
+import { DATA_CATEGORIES, type DataCategory } from '../providers/types.js'
+import { InvalidArgumentError } from './errors.js'
 
 // Load .env file if present (minimal dotenv — no dependency needed)
 function loadEnvFile(): void {
@@ -40,8 +42,28 @@ export interface OmdConfig {
 	finnhubApiKey?: string
 	alphaVantageApiKey?: string
 	edgarUserAgent?: string
-	defaultFormat?: 'markdown' | 'json' | 'plain'
+	defaultFormat?: 'markdown' | 'json' | 'plain' | 'csv' | 'ndjson'
 	disabledSources?: string[]
+	// Keys are a category ("quote"), a provider-specific category ("fred:macro")
+	// or "*" for every category. Values are seconds or a duration like "24h".
+	cacheTtl?: Record<string, number | string>
+	// Serve expired cache entries up to this long past expiry when every provider fails
+	staleIfError?: number | string
+	// Skip a provider for a category after this many consecutive failures, for the cooldown
+	circuitBreaker?: { failureThreshold?: number; cooldown?: number | string }
+	// Time limit for each provider attempt, per provider name or "*" for all (default 30s).
+	// Values are seconds or a duration like "10s"; --timeout overrides them.
+	timeouts?: Record<string, number | string>
+	// Retries for transient HTTP failures (network errors, 429, 5xx)
+	retry?: { retries?: number; baseDelay?: number | string; maxDelay?: number | string }
+	// Sources to try first per category, in order; unlisted sources follow in built-in order
+	providerPriority?: Partial<Record<DataCategory, string[]>>
+	// Modules exporting extra providers: file paths (relative to this config's directory) or package names
+	plugins?: string[]
+	// PEM file with extra CA certificates to trust, e.g. for a TLS-intercepting proxy
+	caFile?: string
+	// Serve synthetic data from the built-in mock source ahead of the real ones (also OMD_MOCK=1)
+	mock?: boolean
 }
 
 const CONFIG_DIR = join(homedir(), '.omd')
@@ -71,6 +93,15 @@ export function loadConfig(): OmdConfig {
 		}
 	}
 
+	// Drop invalid settings with a warning rather than throwing, so every command —
+	// `omd config set` included, which is how the file gets fixed — keeps working
+	for (const [key, value] of Object.entries(fromFile)) {
+		const problems = validateConfig({ [key]: value })
+		if (problems.length === 0) continue
+		console.error(`Warning: ignoring ${key} in ${CONFIG_FILE}:\n  ${problems.join('\n  ')}`)
+		delete fromFile[key as keyof OmdConfig]
+	}
+
 	cached = {
 		...fromFile,
 		// Env vars override file
@@ -84,6 +115,178 @@ export function loadConfig(): OmdConfig {
 	return cached
 }
 
+const DURATION_RE = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/
+const DURATION_UNITS: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60_000,
+	h: 3_600_000,
+	d: 86_400_000,
+}
+
+/** Parse a duration in milliseconds. Bare numbers are seconds: 30, "30", "30s", "5m", "24h". */
+export function parseDuration(value: number | string): number {
+	if (typeof value === 'number') {
+		if (!Number.isFinite(value) || value < 0)
+			throw new InvalidArgumentError(`Invalid duration: ${value}`)
+		return value * 1000
+	}
+	if (typeof value !== 'string')
+		throw new InvalidArgumentError(`Invalid duration: ${JSON.stringify(value)}`)
+	const match = DURATION_RE.exec(value.trim())
+	if (!match)
+		throw new InvalidArgumentError(`Invalid duration: "${value}" (use e.g. 30, 30s, 5m, 24h)`)
+	return Number(match[1]) * DURATION_UNITS[match[2] ?? 's']
+}
+
+function validateTtlKey(key: string): string | undefined {
+	if (key === '*') return undefined
+	const parts = key.split(':')
+	if (parts.length > 2 || (parts.length === 2 && !parts[0])) {
+		return `"${key}" must be a category or provider:category`
+	}
+	const category = parts[parts.length - 1]
+	if (!DATA_CATEGORIES.includes(category as DataCategory)) {
+		return `"${key}" has unknown category "${category}" (valid: ${DATA_CATEGORIES.join(', ')})`
+	}
+	return undefined
+}
+
+/** Parse TTL overrides: "0" applies to every category, "quote=0,fred:macro=24h" to specific ones. */
+export function parseTtlSpec(spec: string): Record<string, number> {
+	const ttls: Record<string, number> = {}
+	for (const part of spec.split(',')) {
+		const trimmed = part.trim()
+		if (!trimmed) continue
+		const eqIdx = trimmed.indexOf('=')
+		const key = eqIdx === -1 ? '*' : trimmed.slice(0, eqIdx).trim()
+		const problem = validateTtlKey(key)
+		if (problem) throw new InvalidArgumentError(`Invalid cache TTL: ${problem}`)
+		ttls[key] = parseDuration(eqIdx === -1 ? trimmed : trimmed.slice(eqIdx + 1))
+	}
+	return ttls
+}
+
+/** Returns a list of problems with a config object (empty when valid). */
+export function validateConfig(config: OmdConfig): string[] {
+	const problems: string[] = []
+
+	if (config.cacheTtl !== undefined) {
+		if (typeof config.cacheTtl !== 'object' || config.cacheTtl === null) {
+			problems.push('cacheTtl must be an object')
+		} else {
+			for (const [key, value] of Object.entries(config.cacheTtl)) {
+				const problem = validateTtlKey(key)
+				if (problem) problems.push(`cacheTtl: ${problem}`)
+				try {
+					parseDuration(value)
+				} catch (err) {
+					problems.push(`cacheTtl.${key}: ${(err as Error).message}`)
+				}
+			}
+		}
+	}
+
+	if (config.staleIfError !== undefined) {
+		try {
+			parseDuration(config.staleIfError)
+		} catch (err) {
+			problems.push(`staleIfError: ${(err as Error).message}`)
+		}
+	}
+
+	if (config.timeouts !== undefined) {
+		if (typeof config.timeouts !== 'object' || config.timeouts === null) {
+			problems.push('timeouts must be an object')
+		} else {
+			for (const [key, value] of Object.entries(config.timeouts)) {
+				try {
+					if (parseDuration(value) === 0) problems.push(`timeouts.${key} must be more than 0`)
+				} catch (err) {
+					problems.push(`timeouts.${key}: ${(err as Error).message}`)
+				}
+			}
+		}
+	}
+
+	if (config.circuitBreaker !== undefined) {
+		if (typeof config.circuitBreaker !== 'object' || config.circuitBreaker === null) {
+			problems.push('circuitBreaker must be an object')
+		} else {
+			const { failureThreshold, cooldown } = config.circuitBreaker
+			if (
+				failureThreshold !== undefined &&
+				(!Number.isInteger(failureThreshold) || failureThreshold < 1)
+			) {
+				problems.push('circuitBreaker.failureThreshold must be a positive integer')
+			}
+			if (cooldown !== undefined) {
+				try {
+					parseDuration(cooldown)
+				} catch (err) {
+					problems.push(`circuitBreaker.cooldown: ${(err as Error).message}`)
+				}
+			}
+		}
+	}
+
+	if (config.providerPriority !== undefined) {
+		if (typeof config.providerPriority !== 'object' || config.providerPriority === null) {
+			problems.push('providerPriority must be an object')
+		} else {
+			for (const [category, sources] of Object.entries(config.providerPriority)) {
+				if (!DATA_CATEGORIES.includes(category as DataCategory)) {
+					problems.push(`providerPriority: unknown category "${category}"`)
+				}
+				if (!Array.isArray(sources) || !sources.every((s) => typeof s === 'string' && s)) {
+					problems.push(`providerPriority.${category} must be a list of source names`)
+				}
+			}
+		}
+	}
+
+	if (config.plugins !== undefined) {
+		if (
+			!Array.isArray(config.plugins) ||
+			!config.plugins.every((p) => typeof p === 'string' && p)
+		) {
+			problems.push('plugins must be a list of module paths or package names')
+		}
+	}
+
+	if (config.caFile !== undefined && (typeof config.caFile !== 'string' || !config.caFile)) {
+		problems.push('caFile must be a file path')
+	}
+
+	if (config.mock !== undefined && typeof config.mock !== 'boolean') {
+		problems.push('mock must be true or false')
+	}
+
+	if (config.retry !== undefined) {
+		if (typeof config.retry !== 'object' || config.retry === null) {
+			problems.push('retry must be an object')
+		} else {
+			const { retries, baseDelay, maxDelay } = config.retry
+			if (retries !== undefined && (!Number.isInteger(retries) || retries < 0)) {
+				problems.push('retry.retries must be a non-negative integer')
+			}
+			for (const [name, value] of [
+				['baseDelay', baseDelay],
+				['maxDelay', maxDelay],
+			] as const) {
+				if (value === undefined) continue
+				try {
+					parseDuration(value)
+				} catch (err) {
+					problems.push(`retry.${name}: ${(err as Error).message}`)
+				}
+			}
+		}
+	}
+
+	return problems
+}
+
 export function saveConfig(config: Partial<OmdConfig>): void {
 	const existing = loadConfig()
 	const merged = { ...existing, ...config }
@@ -102,3 +305,11 @@ export function resetConfigCache(): void {
 export function getConfigPath(): string {
 	return CONFIG_FILE
 }
+
+export function getCacheDir(): string {
+	return join(CONFIG_DIR, 'cache')
+}
+
+export function getStateDir(): string {
+	return join(CONFIG_DIR, 'state')
+}
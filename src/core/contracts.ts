@@ -0,0 +1,180 @@
+import { z } from 'zod'
+import type { DataCategory } from '../providers/types.js'
+import type {
+	CryptoCandle,
+	CryptoMarketOverview,
+	CryptoPrice,
+	CryptoQuote,
+	DividendEvent,
+	EarningsData,
+	Filing,
+	FinancialStatement,
+	HistoricalQuote,
+	InsiderTransaction,
+	MacroCategory,
+	MacroSearchResult,
+	MacroSeries,
+	OptionContract,
+	QuoteResult,
+	SearchResult,
+} from '../types.js'
+import { InvalidArgumentError, UpstreamSchemaError } from './errors.js'
+
+// Schemas at the boundaries: what route() accepts per category/action, and what
+// providers expect back from upstream APIs.
+
+/** Args schema for a category/action, plus the type of data it resolves to. */
+export interface Contract<A extends z.ZodTypeAny = z.ZodTypeAny, R = unknown> {
+	args: A
+	/** Type-level only: carries the result type, never set at runtime */
+	readonly result?: R
+}
+
+function contract<R>() {
+	return <A extends z.ZodTypeAny>(args: A): Contract<A, R> => ({ args })
+}
+
+const symbol = z.string().trim().min(1)
+const count = z.number().int().positive()
+const period = z.enum(['annual', 'quarterly'])
+
+export const CONTRACTS = {
+	'search/search': contract<SearchResult[]>()(
+		z
+			.object({
+				query: z.string().trim().min(1),
+				limit: count.optional(),
+				startDate: z.string().optional(),
+				endDate: z.string().optional(),
+				forms: z.string().optional(),
+			})
+			.strict(),
+	),
+	'quote/get': contract<QuoteResult>()(z.object({ symbol }).strict()),
+	'quote/batch': contract<QuoteResult[]>()(z.object({ symbols: z.array(symbol).min(1) }).strict()),
+	'financials/get': contract<FinancialStatement[]>()(
+		z.object({ symbol, period: period.optional(), limit: count.optional() }).strict(),
+	),
+	'filing/list': contract<Filing[]>()(
+		z
+			.object({
+				symbol,
+				type: z.string().optional(),
+				latest: z.boolean().optional(),
+				limit: count.optional(),
+			})
+			.strict(),
+	),
+	'insiders/list': contract<InsiderTransaction[]>()(
+		z.object({ symbol, limit: count.optional() }).strict(),
+	),
+	'macro/get': contract<MacroSeries>()(
+		z
+			.object({
+				seriesId: symbol,
+				start: z.string().optional(),
+				end: z.string().optional(),
+				limit: count.optional(),
+				country: z.string().optional(),
+			})
+			.strict(),
+	),
+	'macro/search': contract<MacroSearchResult[]>()(
+		z.object({ query: z.string().trim().min(1), limit: count.optional() }).strict(),
+	),
+	'macro/categories': contract<MacroCategory[]>()(
+		z.object({ categoryId: z.number().int().nonnegative().optional() }).strict(),
+	),
+	'crypto/quote': contract<CryptoQuote>()(z.object({ symbol }).strict()),
+	'crypto/price': contract<CryptoPrice>()(z.object({ symbol }).strict()),
+	'crypto/history': contract<CryptoCandle[]>()(
+		z.object({ symbol, days: count.optional(), interval: z.string().optional() }).strict(),
+	),
+	'crypto/top': contract<CryptoQuote[]>()(z.object({ limit: count.optional() }).strict()),
+	'crypto/trending': contract<CryptoQuote[]>()(z.object({}).strict()),
+	'crypto/global': contract<CryptoMarketOverview>()(z.object({}).strict()),
+	'history/get': contract<HistoricalQuote[]>()(
+		z.object({ symbol, days: count.optional() }).strict(),
+	),
+	'options/get': contract<OptionContract[]>()(z.object({ symbol }).strict()),
+	'earnings/get': contract<EarningsData[]>()(z.object({ symbol }).strict()),
+	'dividends/get': contract<DividendEvent[]>()(z.object({ symbol }).strict()),
+} satisfies Record<`${DataCategory}/${string}`, Contract>
+
+export type ContractKey = keyof typeof CONTRACTS
+
+/** Actions with a contract in the given category, e.g. ActionOf<'crypto'> = 'quote' | 'top' | … */
+export type ActionOf<C extends DataCategory> = ContractKey extends infer K
+	? K extends `${C}/${infer A}`
+		? A
+		: never
+	: never
+
+type ContractFor<C extends DataCategory, A extends string> = (typeof CONTRACTS)[Extract<
+	ContractKey,
+	`${C}/${A}`
+>]
+
+/** Args accepted by route() for a category/action (optional fields may be left out) */
+export type ArgsOf<C extends DataCategory, A extends ActionOf<C>> = z.input<
+	ContractFor<C, A>['args']
+>
+
+/** Data type a category/action resolves to */
+export type ResultOf<C extends DataCategory, A extends ActionOf<C>> = ContractFor<
+	C,
+	A
+> extends Contract<z.ZodTypeAny, infer R>
+	? R
+	: never
+
+export function getContract(category: DataCategory, action: string): Contract | undefined {
+	return (CONTRACTS as Record<string, Contract>)[`${category}/${action}`]
+}
+
+/**
+ * Validate args against the category/action contract, returning the parsed args.
+ * Actions without a contract (e.g. from third-party providers) pass through as-is.
+ */
+export function parseArgs(
+	category: DataCategory,
+	action: string,
+	args: Record<string, unknown>,
+): Record<string, unknown> {
+	const contract = getContract(category, action)
+	if (!contract) return args
+	const parsed = contract.args.safeParse(args)
+	if (parsed.success) return parsed.data
+	const problems = describeIssues(parsed.error, 'args')
+	throw new InvalidArgumentError(
+		`Invalid arguments for ${category}/${action}: ${problems.join('; ')}`,
+	)
+}
+
+/**
+ * Check an upstream payload against the schema the provider relies on, so a changed
+ * API fails loudly (and the router falls back) instead of yielding undefined or zeros.
+ */
+export function parseUpstream<S extends z.ZodTypeAny>(
+	schema: S,
+	data: unknown,
+	context: { source: string; what: string },
+): z.output<S> {
+	const parsed = schema.safeParse(data)
+	if (parsed.success) return parsed.data
+	const issues = describeIssues(parsed.error, 'response')
+	// Long payloads can fail in many places; the first few say enough
+	const shown =
+		issues.slice(0, 3).join('; ') + (issues.length > 3 ? ` (+${issues.length - 3} more)` : '')
+	throw new UpstreamSchemaError(
+		`[${context.source}] Unexpected ${context.what} response: ${shown}`,
+		{ issues, source: context.source },
+	)
+}
+
+/** One "path: problem" line per zod issue; `root` names the value itself */
+export function describeIssues(error: z.ZodError, root: string): string[] {
+	return error.issues.map(
+		(issue) => `${issue.path.length > 0 ? issue.path.join('.') : root}: ${issue.message}`,
+	)
+}
@@ -0,0 +1,155 @@
+/** Base class for every error omd raises on purpose. */
+export class OmdError extends Error {
+	/** Provider that raised the error, when known */
+	readonly source?: string
+
+	constructor(message: string, options: { source?: string; cause?: unknown } = {}) {
+		super(message, { cause: options.cause })
+		this.name = new.target.name
+		this.source = options.source
+	}
+}
+
+/** Arguments are missing or malformed — retrying with another provider won't help. */
+export class InvalidArgumentError extends OmdError {}
+
+/**
+ * The provider has no data for the symbol/series. `definitive` means the provider is
+ * authoritative enough that the router should not try the remaining fallbacks.
+ */
+export class SymbolNotFoundError extends OmdError {
+	readonly symbol: string
+	readonly definitive: boolean
+
+	constructor(
+		message: string,
+		options: { symbol: string; definitive?: boolean; source?: string; cause?: unknown },
+	) {
+		super(message, options)
+		this.symbol = options.symbol
+		this.definitive = options.definitive ?? false
+	}
+}
+
+/**
+ * Local quota exhausted or upstream answered 429. `local` means omd's own limiter
+ * refused the request before it was sent, which says nothing about the provider's health.
+ */
+export class RateLimitError extends OmdError {
+	readonly retryAfterMs?: number
+	readonly local: boolean
+
+	constructor(
+		message: string,
+		options: { retryAfterMs?: number; local?: boolean; source?: string } = {},
+	) {
+		super(message, options)
+		this.retryAfterMs = options.retryAfterMs
+		this.local = options.local ?? false
+	}
+}
+
+/** API key missing, invalid, or not entitled to the endpoint. */
+export class AuthError extends OmdError {}
+
+/** Upstream returned an error status or a response we can't use. */
+export class UpstreamError extends OmdError {
+	readonly status?: number
+
+	constructor(
+		message: string,
+		options: { status?: number; source?: string; cause?: unknown } = {},
+	) {
+		super(message, options)
+		this.status = options.status
+	}
+}
+
+/** The upstream answered, but not in the shape the provider expects (the API changed or sent junk). */
+export class UpstreamSchemaError extends UpstreamError {
+	/** One "path: problem" line per mismatch */
+	readonly issues: string[]
+
+	constructor(message: string, options: { issues: string[]; source?: string; cause?: unknown }) {
+		super(message, options)
+		this.issues = options.issues
+	}
+}
+
+/** The request never got a response (DNS, connection refused, reset, ...). */
+export class NetworkError extends OmdError {}
+
+/** The provider didn't answer within its time limit; the attempt was cancelled. */
+export class TimeoutError extends NetworkError {
+	readonly timeoutMs: number
+
+	constructor(message: string, options: { timeoutMs: number; source?: string }) {
+		super(message, options)
+		this.timeoutMs = options.timeoutMs
+	}
+}
+
+/** The provider doesn't implement this category/action. */
+export class UnsupportedActionError extends OmdError {}
+
+/** Provider skipped because its circuit breaker is open. */
+export class CircuitOpenError extends OmdError {}
+
+/** No enabled provider can serve the request. */
+export class NoProviderError extends OmdError {}
+
+export interface ProviderFailure {
+	source: string
+	error: Error
+}
+
+/** Every candidate provider failed; `causes` holds each provider's error in the order tried. */
+export class AllProvidersFailedError extends OmdError {
+	readonly causes: ProviderFailure[]
+
+	constructor(message: string, causes: ProviderFailure[]) {
+		super(message, { cause: causes[causes.length - 1]?.error })
+		this.causes = causes
+	}
+}
+
+/** Map an HTTP error status to the matching error class. */
+export function errorFromStatus(
+	status: number,
+	message: string,
+	options: { source?: string; retryAfterMs?: number } = {},
+): OmdError {
+	if (status === 401 || status === 403) return new AuthError(message, options)
+	if (status === 429) return new RateLimitError(message, options)
+	return new UpstreamError(message, { ...options, status })
+}
+
+// CLI exit codes. Invalid arguments deliberately share 2 with the usage errors commander
+// reports (unknown option, missing argument): either way, the command line needs fixing.
+export const EXIT_CODES = {
+	generic: 1,
+	invalidArgument: 2,
+	notFound: 3,
+	auth: 4,
+	rateLimit: 5,
+	upstream: 6,
+	network: 7,
+	noProvider: 8,
+	allProvidersFailed: 9,
+	/** Some items of a multi-item request failed; the rest were printed */
+	partial: 10,
+} as const
+
+export function exitCodeFor(err: unknown): number {
+	if (err instanceof InvalidArgumentError) return EXIT_CODES.invalidArgument
+	if (err instanceof SymbolNotFoundError) return EXIT_CODES.notFound
+	if (err instanceof AuthError) return EXIT_CODES.auth
+	if (err instanceof RateLimitError) return EXIT_CODES.rateLimit
+	if (err instanceof UpstreamError) return EXIT_CODES.upstream
+	if (err instanceof NetworkError) return EXIT_CODES.network
+	if (err instanceof NoProviderError || err instanceof UnsupportedActionError) {
+		return EXIT_CODES.noProvider
+	}
+	if (err instanceof AllProvidersFailedError) return EXIT_CODES.allProvidersFailed
+	return EXIT_CODES.generic
+}
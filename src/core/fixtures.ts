@@ -0,0 +1,157 @@
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { InvalidArgumentError, NetworkError } from './errors.js'
+import { type FetchLike, methodOf, redactUrl, urlOf } from './http.js'
+
+// Record/replay of upstream HTTP exchanges, one JSON file per distinct request.
+// Fixtures are keyed on the redacted URL, so recordings made with one set of API keys
+// replay under any other (or none). Time windows count by their length rather than their
+// dates, so a recording still matches the same command run days later. Request headers
+// are never written, which keeps header-borne keys out of the files too; session cookies
+// and Yahoo's crumb are masked in the stored responses, so recordings are safe to commit.
+
+export interface Fixture {
+	request: { method: string; url: string; body?: string }
+	response: {
+		status: number
+		statusText: string
+		// set-cookie is the one header that can repeat, so it's kept as a list
+		headers: Record<string, string | string[]>
+		body: string
+	}
+	recordedAt: string
+}
+
+// Describe the raw bytes on the wire; the stored body is already decoded
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding'])
+
+// Any crumb does on replay, since it's masked in the URLs fixtures are keyed on
+const SECRET_BODY_PATHS = new Set(['/v1/test/getcrumb'])
+
+// Query parameters that bound a time window, as unix seconds: [start, end]
+const TIME_WINDOW_PARAMS = [
+	['period1', 'period2'],
+	['from', 'to'],
+] as const
+
+function hostOf(url: string): string {
+	return URL.canParse(url) ? new URL(url).hostname : ''
+}
+
+function storedBody(url: string, body: string): string {
+	return URL.canParse(url) && SECRET_BODY_PATHS.has(new URL(url).pathname) ? '***' : body
+}
+
+/**
+ * Session cookies as written to a fixture. Yahoo won't hand out a crumb without one,
+ * so its cookies keep their names and attributes with the value masked; other hosts'
+ * are dropped.
+ */
+function storedCookies(url: string, cookies: string[]): string[] {
+	const host = hostOf(url)
+	if (host !== 'yahoo.com' && !host.endsWith('.yahoo.com')) return []
+	return cookies.map((cookie) => cookie.replace(/^([^=;]*)=[^;]*/, '$1=***'))
+}
+
+/** The URL a fixture is keyed on: a time window becomes its length in days, anchored at "now". */
+function keyUrl(url: string): string {
+	if (!URL.canParse(url)) return url
+	const parsed = new URL(url)
+	let changed = false
+	for (const [start, end] of TIME_WINDOW_PARAMS) {
+		const from = Number(parsed.searchParams.get(start) ?? Number.NaN)
+		const to = Number(parsed.searchParams.get(end) ?? Number.NaN)
+		if (!Number.isFinite(from) || !Number.isFinite(to)) continue
+		parsed.searchParams.set(start, `${Math.round((to - from) / 86_400)}d`)
+		parsed.searchParams.delete(end)
+		changed = true
+	}
+	return changed ? parsed.href : url
+}
+
+function toResponse({ status, statusText, headers, body }: Fixture['response']): Response {
+	const list = new Headers()
+	for (const [name, value] of Object.entries(headers)) {
+		for (const item of Array.isArray(value) ? value : [value]) list.append(name, item)
+	}
+	// 204/304 responses can't carry a body, not even an empty string
+	return new Response(status === 204 || status === 304 ? null : body, {
+		status,
+		statusText,
+		headers: list,
+	})
+}
+
+function requestOf(input: string | URL | Request, init?: RequestInit): Fixture['request'] {
+	const body = typeof init?.body === 'string' ? init.body : undefined
+	return { method: methodOf(input, init), url: redactUrl(urlOf(input)), ...(body && { body }) }
+}
+
+/** File name for a request: readable host/path prefix plus a hash of method, URL and body. */
+export function fixtureName(request: Fixture['request']): string {
+	const hash = createHash('sha256')
+		.update(`${request.method} ${keyUrl(request.url)}\n${request.body ?? ''}`)
+		.digest('hex')
+		.slice(0, 12)
+	let prefix = 'request'
+	try {
+		const url = new URL(request.url)
+		prefix = `${url.host}${url.pathname}`
+			.replace(/[^\w.-]+/g, '_')
+			.replace(/_+$/, '')
+			.slice(0, 80)
+	} catch {
+		// Keep the generic prefix
+	}
+	return `${prefix}-${hash}.json`
+}
+
+/** Wrap a fetch so every exchange is also saved to `dir`. Later identical requests overwrite. */
+export function createRecordingFetch(dir: string, inner?: FetchLike): FetchLike {
+	mkdirSync(dir, { recursive: true })
+	return async (input, init) => {
+		const response = await (inner ?? fetch)(input, init)
+		const body = await response.text()
+		const headers: Record<string, string> = {}
+		response.headers.forEach((value, name) => {
+			if (!DROPPED_HEADERS.has(name) && name !== 'set-cookie') headers[name] = value
+		})
+		const cookies = response.headers.getSetCookie()
+
+		const request = requestOf(input, init)
+		const stored = storedCookies(request.url, cookies)
+		const fixture: Fixture = {
+			request,
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: stored.length > 0 ? { ...headers, 'set-cookie': stored } : headers,
+				body: storedBody(request.url, body),
+			},
+			recordedAt: new Date().toISOString(),
+		}
+		writeFileSync(join(dir, fixtureName(request)), `${JSON.stringify(fixture, null, 2)}\n`)
+
+		// The original body is consumed; hand back an equivalent response
+		return toResponse({
+			status: response.status,
+			statusText: response.statusText,
+			headers: cookies.length > 0 ? { ...headers, 'set-cookie': cookies } : headers,
+			body,
+		})
+	}
+}
+
+/** A fetch that only serves responses recorded in `dir` and never touches the network. */
+export function createReplayFetch(dir: string): FetchLike {
+	if (!existsSync(dir)) throw new InvalidArgumentError(`Replay directory not found: ${dir}`)
+	return async (input, init) => {
+		const request = requestOf(input, init)
+		const file = join(dir, fixtureName(request))
+		if (!existsSync(file)) {
+			throw new NetworkError(`No recorded response for ${request.method} ${request.url} in ${dir}`)
+		}
+		return toResponse((JSON.parse(readFileSync(file, 'utf-8')) as Fixture).response)
+	}
+}
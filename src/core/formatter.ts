@@ -1,62 +1,161 @@
+import { once } from 'node:events'
+import type { Writable } from 'node:stream'
+import type { ProviderResult } from '../providers/types.js'
 import type { OutputFormat } from '../types.js'
+import type { TraceEvent } from './trace.js'
 
-export function formatTable(
-	headers: string[],
-	rows: (string | number | undefined | null)[][],
-	format: OutputFormat,
-): string {
+/** A number shown formatted in tables, and exported as the raw value in CSV */
+export interface NumericCell {
+	value: number
+	text: string
+}
+
+export type Cell = string | number | undefined | null | NumericCell
+
+/** Cell for a number: `format` gives what people see, CSV gets the value itself. */
+export function numeric(value: number | undefined | null, format: (n: number) => string): Cell {
+	return value == null ? undefined : { value, text: format(value) }
+}
+
+function text(cell: Cell): string | number | null {
+	if (cell == null) return null
+	return typeof cell === 'object' ? cell.text : cell
+}
+
+function raw(cell: Cell): string | number | null {
+	if (cell == null) return null
+	return typeof cell === 'object' ? cell.value : cell
+}
+
+// RFC 4180: quote fields containing a comma, quote or line break; double inner quotes
+function csvField(cell: Cell): string {
+	const value = String(raw(cell) ?? '')
+	return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value
+}
+
+function csvLine(cells: Cell[]): string {
+	return cells.map(csvField).join(',')
+}
+
+/** Formats written for other programs; notes for people (like the source line) are left out */
+export function isMachineFormat(format: OutputFormat): boolean {
+	return format === 'json' || format === 'csv' || format === 'ndjson'
+}
+
+/** What `--json` prints for a result */
+export interface JsonEnvelope<T = unknown> {
+	/** The typed result (HistoricalQuote[], QuoteResult, ...) with raw numbers */
+	data: T
+	source: string
+	cached: boolean
+	/** When the data came from upstream (ISO 8601); earlier than now for cached data */
+	fetchedAt: string
+	/** Served from an expired cache entry because every source failed */
+	stale?: true
+}
+
+export function toEnvelope<T>(result: ProviderResult<T>, now = Date.now()): JsonEnvelope<T> {
+	return {
+		data: result.data,
+		source: result.source,
+		cached: result.cached,
+		fetchedAt: new Date(result.cachedAt ?? now).toISOString(),
+		...(result.stale && { stale: true as const }),
+	}
+}
+
+export function formatJson<T>(result: ProviderResult<T>): string {
+	return JSON.stringify(toEnvelope(result), null, 2)
+}
+
+/**
+ * Write rows as NDJSON, one line each as soon as it's produced, so nothing builds up
+ * in memory. Waits for the stream to drain whenever it reports backpressure.
+ */
+export async function writeNdjson(
+	rows: Iterable<unknown> | AsyncIterable<unknown>,
+	out: Writable = process.stdout,
+): Promise<void> {
+	for await (const row of rows) {
+		if (out.destroyed) return
+		if (!out.write(`${JSON.stringify(row)}\n`)) await once(out, 'drain')
+	}
+}
+
+/** Table rows as objects keyed by header, the shape JSON tables use */
+function toRecords(headers: string[], rows: Cell[][]): Record<string, string | number | null>[] {
+	return rows.map((row) => {
+		const obj: Record<string, string | number | null> = {}
+		for (let i = 0; i < headers.length; i++) {
+			obj[headers[i]] = text(row[i])
+		}
+		return obj
+	})
+}
+
+export function formatTable(headers: string[], rows: Cell[][], format: OutputFormat): string {
 	if (format === 'json') {
-		return JSON.stringify(
-			rows.map((row) => {
-				const obj: Record<string, string | number | null> = {}
-				for (let i = 0; i < headers.length; i++) {
-					obj[headers[i]] = row[i] ?? null
-				}
-				return obj
-			}),
-			null,
-			2,
-		)
+		return JSON.stringify(toRecords(headers, rows), null, 2)
+	}
+
+	if (format === 'csv') {
+		return [headers, ...rows].map(csvLine).join('\n')
+	}
+
+	if (format === 'ndjson') {
+		return toRecords(headers, rows)
+			.map((record) => JSON.stringify(record))
+			.join('\n')
 	}
 
 	if (format === 'plain') {
 		const headerLine = headers.join('\t')
-		const dataLines = rows.map((row) => row.map((v) => v ?? '').join('\t'))
+		const dataLines = rows.map((row) => row.map((v) => text(v) ?? '').join('\t'))
 		return [headerLine, ...dataLines].join('\n')
 	}
 
 	// Markdown table
 	const colWidths = headers.map((h, i) => {
-		const maxData = rows.reduce((max, row) => Math.max(max, String(row[i] ?? '').length), 0)
+		const maxData = rows.reduce((max, row) => Math.max(max, String(text(row[i]) ?? '').length), 0)
 		return Math.max(h.length, maxData)
 	})
 
 	const headerLine = `| ${headers.map((h, i) => h.padEnd(colWidths[i])).join(' | ')} |`
 	const separator = `| ${colWidths.map((w) => '-'.repeat(w)).join(' | ')} |`
 	const dataLines = rows.map(
-		(row) => `| ${row.map((v, i) => String(v ?? '').padEnd(colWidths[i])).join(' | ')} |`,
+		(row) => `| ${row.map((v, i) => String(text(v) ?? '').padEnd(colWidths[i])).join(' | ')} |`,
 	)
 
 	return [headerLine, separator, ...dataLines].join('\n')
 }
 
-export function formatKeyValue(
-	data: Record<string, string | number | undefined | null>,
-	format: OutputFormat,
-): string {
+export function formatKeyValue(data: Record<string, Cell>, format: OutputFormat): string {
 	if (format === 'json') {
-		return JSON.stringify(data, null, 2)
+		return JSON.stringify(
+			Object.fromEntries(Object.entries(data).map(([k, v]) => [k, text(v) ?? undefined])),
+			null,
+			2,
+		)
+	}
+
+	if (format === 'ndjson') {
+		return JSON.stringify(Object.fromEntries(Object.entries(data).map(([k, v]) => [k, text(v)])))
+	}
+
+	// A single record: keys as the header row, so it loads like any other table
+	if (format === 'csv') {
+		return [csvLine(Object.keys(data)), csvLine(Object.values(data))].join('\n')
 	}
 
+	const entries = Object.entries(data)
+		.map(([k, v]) => [k, text(v)] as const)
+		.filter(([_, v]) => v != null)
+
 	if (format === 'plain') {
-		return Object.entries(data)
-			.filter(([_, v]) => v != null)
-			.map(([k, v]) => `${k}\t${v}`)
-			.join('\n')
+		return entries.map(([k, v]) => `${k}\t${v}`).join('\n')
 	}
 
 	// Markdown key-value
-	const entries = Object.entries(data).filter(([_, v]) => v != null)
 	const maxKeyLen = entries.reduce((max, [k]) => Math.max(max, k.length), 0)
 	return entries.map(([k, v]) => `**${k.padEnd(maxKeyLen)}**: ${v}`).join('\n')
 }
@@ -77,3 +176,76 @@ export function formatPercent(n: number): string {
 	const sign = n >= 0 ? '+' : ''
 	return `${sign}${n.toFixed(2)}%`
 }
+
+export function formatDuration(ms: number): string {
+	const total = Math.round(Math.abs(ms) / 1000)
+	const units: [string, number][] = [
+		['d', 86_400],
+		['h', 3600],
+		['m', 60],
+		['s', 1],
+	]
+	// Show the two most significant non-zero units, e.g. "5m 12s", "3h", "2d 4h"
+	const parts: string[] = []
+	let rest = total
+	for (const [label, size] of units) {
+		const n = Math.floor(rest / size)
+		rest -= n * size
+		if (n > 0 || (parts.length === 0 && size === 1)) parts.push(`${n}${label}`)
+		if (parts.length === 2) break
+		if (parts.length === 1 && n === 0) break
+	}
+	return parts.join(' ')
+}
+
+export function formatSource(result: Omit<ProviderResult, 'data'>): string {
+	if (!result.cached) return result.source
+	if (result.stale && result.cachedAt != null) {
+		return `${result.source} (cached, stale — fetched ${formatDuration(Date.now() - result.cachedAt)} ago)`
+	}
+	return `${result.source} (cached)`
+}
+
+/** One line per trace event for --verbose; undefined for events not worth a line. */
+export function formatTraceEvent(event: TraceEvent): string | undefined {
+	const prefix = [
+		event.requestId != null && `#${event.requestId}`,
+		event.category && `${event.category}/${event.action}`,
+	]
+		.filter(Boolean)
+		.join(' ')
+	const who = event.provider ?? ''
+	let line: string
+	switch (event.kind) {
+		case 'cache':
+			line = event.hit ? `cache hit (${who}${event.stale ? ', stale' : ''})` : 'cache miss'
+			break
+		case 'skip':
+			line = `${who} skipped: ${event.reason}`
+			break
+		case 'coalesced':
+			line = `${who} joined in-flight request`
+			break
+		case 'http': {
+			const outcome = event.status != null ? `${event.status}` : `error: ${event.error}`
+			const retry = event.attempt > 1 ? ` (attempt ${event.attempt})` : ''
+			line = `${who} ${event.method} ${event.url} → ${outcome} in ${event.durationMs}ms${retry}`
+			break
+		}
+		case 'success':
+			line = `${who} ok in ${event.durationMs}ms`
+			break
+		case 'failure':
+			line = `${who} failed in ${event.durationMs}ms: ${event.errorName}: ${event.error}`
+			if (event.cause) line += ` (caused by: ${event.cause})`
+			break
+		case 'done':
+			line = event.ok
+				? `served by ${who}${event.cached ? ' (cached)' : ''} in ${event.durationMs}ms`
+				: `failed after ${event.durationMs}ms`
+			break
+		default:
+			return undefined
+	}
+	return prefix ? `${prefix} ${line.trim()}` : line.trim()
+}
@@ -0,0 +1,105 @@
+import {
+	closeSync,
+	linkSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	renameSync,
+	statSync,
+	unlinkSync,
+	writeFileSync,
+} from 'node:fs'
+import { dirname } from 'node:path'
+
+// Write to a temp file in the same directory, then rename over the target.
+// rename() is atomic on POSIX, so concurrent readers never see a partial file.
+export function writeFileAtomic(path: string, content: string, mode = 0o600): void {
+	mkdirSync(dirname(path), { recursive: true })
+	const tmp = `${path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`
+	try {
+		writeFileSync(tmp, content, { mode })
+		renameSync(tmp, path)
+	} catch (err) {
+		removeFile(tmp)
+		throw err
+	}
+}
+
+export function readJsonFile<T>(path: string): T | undefined {
+	try {
+		return JSON.parse(readFileSync(path, 'utf-8')) as T
+	} catch {
+		return undefined
+	}
+}
+
+export function removeFile(path: string): void {
+	try {
+		unlinkSync(path)
+	} catch {
+		// Already gone (another process may have removed it)
+	}
+}
+
+// A lock held longer than this belongs to a crashed process
+const STALE_LOCK_MS = 5_000
+const LOCK_POLL_MS = 10
+
+function sleepSync(ms: number): void {
+	Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms)
+}
+
+function lockIsStale(lockPath: string): boolean {
+	try {
+		return Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS
+	} catch {
+		// Released between our open attempt and the stat — just retry
+		return false
+	}
+}
+
+// Two processes can both find the same stale lock. Each moves it aside under a name of its
+// own first, which only one of them can do; the other would be moving the fresh lock the
+// winner took since, so it puts that back instead of deleting it.
+function breakStaleLock(lockPath: string): void {
+	const aside = `${lockPath}.${process.pid}.${Math.random().toString(36).slice(2)}.stale`
+	try {
+		renameSync(lockPath, aside)
+	} catch {
+		// Already broken or released by someone else
+		return
+	}
+	if (!lockIsStale(aside)) {
+		try {
+			linkSync(aside, lockPath)
+		} catch {
+			// Taken again meanwhile, so it can no longer be put back
+		}
+	}
+	removeFile(aside)
+}
+
+/**
+ * Run fn while holding an exclusive lock on `${path}.lock` (O_EXCL create, so it
+ * works across processes). Locks left behind by crashed processes are broken after
+ * a few seconds. Synchronous so callers on hot paths stay synchronous.
+ */
+export function withFileLock<T>(path: string, fn: () => T): T {
+	const lockPath = `${path}.lock`
+	mkdirSync(dirname(path), { recursive: true })
+	for (;;) {
+		try {
+			closeSync(openSync(lockPath, 'wx', 0o600))
+			break
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+			if (lockIsStale(lockPath)) breakStaleLock(lockPath)
+			else sleepSync(LOCK_POLL_MS)
+		}
+	}
+	try {
+		return fn()
+	} finally {
+		removeFile(lockPath)
+	}
+}
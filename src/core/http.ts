@@ -0,0 +1,189 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { loadConfig, parseDuration } from './config.js'
+import { NetworkError, OmdError } from './errors.js'
+import { emitTrace } from './trace.js'
+
+export interface RetryOptions {
+	/** Extra attempts after the first one */
+	retries: number
+	baseDelayMs: number
+	maxDelayMs: number
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+	retries: 2,
+	baseDelayMs: 500,
+	maxDelayMs: 10_000,
+}
+
+// Transient statuses worth another try. Other 4xx (bad request, auth, not found,
+// geo-blocked) will not change on retry.
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504])
+
+/** The subset of fetch() the HTTP layer uses; the global fetch and undici's both fit. */
+export type FetchLike = (input: string | URL | Request, init?: RequestInit) => Promise<Response>
+
+let fetchImpl: FetchLike | undefined
+
+/**
+ * Send all provider traffic through `impl` — a proxy-aware, instrumented or fake fetch.
+ * Call without arguments to go back to the global fetch.
+ */
+export function setFetch(impl?: FetchLike): void {
+	fetchImpl = impl
+}
+
+// The abort signal of the provider attempt in progress (see withSignal)
+const attemptSignal = new AsyncLocalStorage<AbortSignal>()
+
+/**
+ * Run fn with `signal` in scope: every httpFetch() inside it, however deeply nested
+ * (yahoo-finance2's calls included), is cancelled when the signal aborts.
+ */
+export function withSignal<T>(signal: AbortSignal | undefined, fn: () => T): T {
+	return signal ? attemptSignal.run(signal, fn) : fn()
+}
+
+/** The signal put in scope by withSignal(), if any */
+export function currentSignal(): AbortSignal | undefined {
+	return attemptSignal.getStore()
+}
+
+function retrySettings(): RetryOptions {
+	const cfg = loadConfig().retry
+	return {
+		retries: cfg?.retries ?? DEFAULT_RETRY.retries,
+		baseDelayMs:
+			cfg?.baseDelay !== undefined ? parseDuration(cfg.baseDelay) : DEFAULT_RETRY.baseDelayMs,
+		maxDelayMs:
+			cfg?.maxDelay !== undefined ? parseDuration(cfg.maxDelay) : DEFAULT_RETRY.maxDelayMs,
+	}
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP date) into ms. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+	if (!value) return undefined
+	const trimmed = value.trim()
+	if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000
+	const date = Date.parse(trimmed)
+	if (Number.isNaN(date)) return undefined
+	return Math.max(0, date - now)
+}
+
+// "Full jitter" exponential backoff: uniform in [0, min(max, base * 2^attempt)]
+function backoffDelay(attempt: number, retry: RetryOptions): number {
+	const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt)
+	return Math.random() * ceiling
+}
+
+/** Resolves after `ms`, or rejects with the signal's reason as soon as it aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		const onAbort = () => {
+			clearTimeout(timer)
+			reject(signal?.reason)
+		}
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
+}
+
+// Query parameters that carry credentials (Yahoo's crumb is a session token)
+const SECRET_PARAMS = new Set(['apikey', 'api_key', 'token', 'key', 'crumb'])
+
+/** Replace credential query parameters with "***" so URLs are safe to log. */
+export function redactUrl(url: string): string {
+	try {
+		const parsed = new URL(url)
+		for (const name of [...parsed.searchParams.keys()]) {
+			if (SECRET_PARAMS.has(name.toLowerCase())) parsed.searchParams.set(name, '***')
+		}
+		return parsed.toString()
+	} catch {
+		return url
+	}
+}
+
+export function urlOf(input: string | URL | Request): string {
+	if (typeof input === 'string') return input
+	return input instanceof URL ? input.toString() : input.url
+}
+
+export function methodOf(input: string | URL | Request, init?: RequestInit): string {
+	return (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase()
+}
+
+/**
+ * fetch() with retries for idempotent requests. Retries network errors and
+ * transient statuses (408, 429, 5xx) with jittered exponential backoff, honoring
+ * Retry-After. Returns the final response — callers still check `response.ok`.
+ * Throws NetworkError when no response could be obtained. Aborts, without retrying,
+ * when `init.signal` or the signal in scope (see withSignal) does.
+ */
+export async function httpFetch(
+	input: string | URL | Request,
+	init?: RequestInit,
+	retryOptions: Partial<RetryOptions> = {},
+): Promise<Response> {
+	const retry = { ...retrySettings(), ...retryOptions }
+	const method = methodOf(input, init)
+	const idempotent = method === 'GET' || method === 'HEAD'
+	const maxAttempts = idempotent ? retry.retries + 1 : 1
+
+	const url = redactUrl(urlOf(input))
+	const scoped = currentSignal()
+	const signal =
+		scoped && init?.signal
+			? AbortSignal.any([scoped, init.signal])
+			: (scoped ?? init?.signal ?? undefined)
+	const requestInit = signal ? { ...init, signal } : init
+
+	for (let attempt = 0; ; attempt++) {
+		signal?.throwIfAborted()
+		const isLast = attempt + 1 >= maxAttempts
+		const started = Date.now()
+		let response: Response
+		try {
+			// Global fetch is looked up per call so test stubs of it still apply
+			response = await (fetchImpl ?? fetch)(input, requestInit)
+		} catch (err) {
+			const reason = err instanceof Error ? err.message : String(err)
+			emitTrace({
+				kind: 'http',
+				method,
+				url,
+				attempt: attempt + 1,
+				durationMs: Date.now() - started,
+				error: reason,
+			})
+			// Cancelled: surface why (e.g. the router's TimeoutError) rather than a network error
+			signal?.throwIfAborted()
+			// Our own errors from an injected transport (e.g. a replay miss) aren't transient
+			if (err instanceof OmdError) throw err
+			if (isLast) throw new NetworkError(`Network error: ${reason}`, { cause: err })
+			await sleep(backoffDelay(attempt, retry), signal)
+			continue
+		}
+		emitTrace({
+			kind: 'http',
+			method,
+			url,
+			attempt: attempt + 1,
+			status: response.status,
+			durationMs: Date.now() - started,
+		})
+
+		if (isLast || !RETRYABLE_STATUS.has(response.status)) return response
+
+		const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+		// Server asks for a longer wait than we're willing to block for — give up now
+		if (retryAfter !== undefined && retryAfter > retry.maxDelayMs) return response
+
+		// Release the connection before waiting
+		await response.body?.cancel().catch(() => {})
+		await sleep(retryAfter ?? backoffDelay(attempt, retry), signal)
+	}
+}
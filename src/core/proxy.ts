@@ -0,0 +1,36 @@
+import { readFileSync } from 'node:fs'
+import { rootCertificates } from 'node:tls'
+import { EnvHttpProxyAgent, fetch as undiciFetch } from 'undici'
+import type { FetchLike } from './http.js'
+
+const PROXY_ENV_VARS = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy']
+
+/**
+ * A fetch that honors HTTP(S)_PROXY / NO_PROXY and trusts the certificates in `caFile`
+ * on top of the bundled roots. Returns undefined when neither is set, so the global
+ * fetch stays in use.
+ */
+export function createEnvFetch(options: { caFile?: string } = {}): FetchLike | undefined {
+	const proxied = PROXY_ENV_VARS.some((name) => process.env[name])
+	if (!proxied && !options.caFile) return undefined
+
+	let ca: string[] | undefined
+	if (options.caFile) {
+		try {
+			ca = [...rootCertificates, readFileSync(options.caFile, 'utf-8')]
+		} catch (err) {
+			throw new Error(`Cannot read caFile ${options.caFile}: ${(err as Error).message}`)
+		}
+	}
+
+	// `connect` covers direct connections, `requestTls`/`proxyTls` the tunnel and proxy
+	// legs — a TLS-intercepting proxy needs the custom CA on both
+	const tls = ca && { connect: { ca }, requestTls: { ca }, proxyTls: { ca } }
+	const dispatcher = new EnvHttpProxyAgent(tls || {})
+	return (input, init) =>
+		// undici's own fetch, since the built-in one won't take a dispatcher from another undici copy
+		undiciFetch(input as Parameters<typeof undiciFetch>[0], {
+			...(init as Parameters<typeof undiciFetch>[1]),
+			dispatcher,
+		}) as unknown as Promise<Response>
+}
@@ -1,50 +1,194 @@
-import type { RateLimitConfig } from '../providers/types.js'
+import type { RateLimitConfig, RateLimitWindow } from '../providers/types.js'
+import { readJsonFile, withFileLock, writeFileAtomic } from './fs.js'
+import { currentSignal, sleep } from './http.js'
+
+interface QuotaUsage {
+	windowStart: number
+	count: number
+}
 
 interface Bucket {
 	tokens: number
 	lastRefill: number
-	config: RateLimitConfig
+	// Requests counted in the current fixed window of each quota, keyed by windowMs
+	quotas?: Record<string, QuotaUsage>
+}
+
+let buckets = new Map<string, Bucket>()
+let statePath: string | undefined
+
+const DEFAULT_MAX_WAIT_MS = 30_000
+let defaultMaxWaitMs = DEFAULT_MAX_WAIT_MS
+
+/** How long acquireToken may wait by default; 0 fails fast like consumeToken (CLI --no-wait). */
+export function setDefaultMaxWait(ms: number): void {
+	defaultMaxWaitMs = ms
+}
+
+/**
+ * Share buckets across processes through a JSON file (used by the CLI), so daily
+ * and monthly quotas hold across runs. Updates happen under a file lock.
+ */
+export function persistRateLimitsTo(path: string | undefined): void {
+	statePath = path
+}
+
+function load(): void {
+	if (!statePath) return
+	buckets = new Map(Object.entries(readJsonFile<Record<string, Bucket>>(statePath) ?? {}))
 }
 
-const buckets = new Map<string, Bucket>()
+function save(): void {
+	if (!statePath) return
+	try {
+		writeFileAtomic(statePath, JSON.stringify(Object.fromEntries(buckets)))
+	} catch {
+		// Unwritable state dir: limits still apply within this process
+	}
+}
+
+// Read-modify-write under the lock so concurrent runs can't both spend the last token
+function update<T>(fn: () => T): T {
+	const path = statePath
+	if (!path) return fn()
+	try {
+		return withFileLock(path, () => {
+			load()
+			const result = fn()
+			save()
+			return result
+		})
+	} catch {
+		return fn()
+	}
+}
 
 function getBucket(source: string, config: RateLimitConfig): Bucket {
 	let bucket = buckets.get(source)
 	if (!bucket) {
-		bucket = { tokens: config.maxRequests, lastRefill: Date.now(), config }
+		bucket = { tokens: config.maxRequests, lastRefill: Date.now() }
 		buckets.set(source, bucket)
 	}
 	return bucket
 }
 
-function refill(bucket: Bucket): void {
+function refill(bucket: Bucket, config: RateLimitConfig): void {
 	const now = Date.now()
 	const elapsed = now - bucket.lastRefill
-	const refillAmount = (elapsed / bucket.config.windowMs) * bucket.config.maxRequests
-	bucket.tokens = Math.min(bucket.config.maxRequests, bucket.tokens + refillAmount)
+	const refillAmount = (elapsed / config.windowMs) * config.maxRequests
+	bucket.tokens = Math.min(config.maxRequests, bucket.tokens + refillAmount)
 	bucket.lastRefill = now
 }
 
+// Fixed windows aligned to the epoch, so a one-day quota resets at midnight UTC
+function windowStartOf(quota: RateLimitWindow, now: number): number {
+	return Math.floor(now / quota.windowMs) * quota.windowMs
+}
+
+function quotaUsed(bucket: Bucket, quota: RateLimitWindow, now: number): number {
+	const usage = bucket.quotas?.[quota.windowMs]
+	return usage && usage.windowStart === windowStartOf(quota, now) ? usage.count : 0
+}
+
+function hasRoom(bucket: Bucket, config: RateLimitConfig, now: number): boolean {
+	if (bucket.tokens < 1) return false
+	return (config.quotas ?? []).every((q) => quotaUsed(bucket, q, now) < q.maxRequests)
+}
+
 export function canRequest(source: string, config: RateLimitConfig): boolean {
+	load()
 	const bucket = getBucket(source, config)
-	refill(bucket)
-	return bucket.tokens >= 1
+	refill(bucket, config)
+	return hasRoom(bucket, config, Date.now())
 }
 
 export function consumeToken(source: string, config: RateLimitConfig): boolean {
-	const bucket = getBucket(source, config)
-	refill(bucket)
-	if (bucket.tokens < 1) return false
-	bucket.tokens -= 1
-	return true
+	return update(() => {
+		const bucket = getBucket(source, config)
+		refill(bucket, config)
+		const now = Date.now()
+		if (!hasRoom(bucket, config, now)) return false
+		bucket.tokens -= 1
+		for (const quota of config.quotas ?? []) {
+			bucket.quotas ??= {}
+			bucket.quotas[quota.windowMs] = {
+				windowStart: windowStartOf(quota, now),
+				count: quotaUsed(bucket, quota, now) + 1,
+			}
+		}
+		return true
+	})
+}
+
+// ms until consumeToken could succeed: the bucket's next token, or the longest exhausted quota
+function msUntilAvailable(bucket: Bucket, config: RateLimitConfig, now: number): number {
+	let wait = bucket.tokens >= 1 ? 0 : ((1 - bucket.tokens) / config.maxRequests) * config.windowMs
+	for (const quota of config.quotas ?? []) {
+		if (quotaUsed(bucket, quota, now) < quota.maxRequests) continue
+		wait = Math.max(wait, windowStartOf(quota, now) + quota.windowMs - now)
+	}
+	return Math.ceil(wait)
 }
 
+/**
+ * Take a token, waiting for one to refill if necessary. Resolves false — without
+ * waiting — when no token will be available within maxWaitMs (e.g. a daily quota
+ * is used up). The wait stops, rejecting with the signal's reason, when `signal` (by
+ * default the one in scope from withSignal()) aborts — the attempt was given up.
+ */
+export async function acquireToken(
+	source: string,
+	config: RateLimitConfig,
+	options: { maxWaitMs?: number; signal?: AbortSignal } = {},
+): Promise<boolean> {
+	const signal = options.signal ?? currentSignal()
+	const deadline = Date.now() + (options.maxWaitMs ?? defaultMaxWaitMs)
+	for (;;) {
+		signal?.throwIfAborted()
+		if (consumeToken(source, config)) return true
+		load()
+		const bucket = getBucket(source, config)
+		refill(bucket, config)
+		const now = Date.now()
+		const wait = msUntilAvailable(bucket, config, now)
+		if (now + wait > deadline) return false
+		// Another process may take the token first; then we just wait again
+		await sleep(wait, signal)
+	}
+}
+
+/** Requests available right now: the tightest of the bucket and every quota. */
 export function getRemaining(source: string, config: RateLimitConfig): number {
+	return Math.min(...getWindowStatus(source, config).map((w) => w.remaining))
+}
+
+export interface WindowStatus extends RateLimitWindow {
+	remaining: number
+	/** ms until a quota window starts over (quotas only; the bucket refills continuously) */
+	resetInMs?: number
+}
+
+/** Remaining requests per window — the token bucket first, then each quota. */
+export function getWindowStatus(source: string, config: RateLimitConfig): WindowStatus[] {
+	load()
 	const bucket = getBucket(source, config)
-	refill(bucket)
-	return Math.floor(bucket.tokens)
+	refill(bucket, config)
+	const now = Date.now()
+	return [
+		{
+			maxRequests: config.maxRequests,
+			windowMs: config.windowMs,
+			remaining: Math.floor(bucket.tokens),
+		},
+		...(config.quotas ?? []).map((q) => ({
+			maxRequests: q.maxRequests,
+			windowMs: q.windowMs,
+			remaining: Math.max(0, q.maxRequests - quotaUsed(bucket, q, now)),
+			resetInMs: windowStartOf(q, now) + q.windowMs - now,
+		})),
+	]
 }
 
 export function resetBucket(source: string): void {
-	buckets.delete(source)
+	update(() => buckets.delete(source))
 }
@@ -1,10 +1,28 @@
 import type { DataCategory, Provider, ProviderResult } from '../providers/types.js'
+import type { GlobalOptions } from '../types.js'
 import * as cache from './cache.js'
-import { loadConfig } from './config.js'
+import * as breaker from './circuit-breaker.js'
+import { loadConfig, parseDuration } from './config.js'
+import { type ActionOf, type ArgsOf, type ResultOf, parseArgs } from './contracts.js'
+import {
+	AllProvidersFailedError,
+	CircuitOpenError,
+	NoProviderError,
+	type ProviderFailure,
+	RateLimitError,
+	SymbolNotFoundError,
+	TimeoutError,
+} from './errors.js'
+import { withSignal } from './http.js'
 import { canRequest } from './rate-limiter.js'
+import { emitTrace, newRequestId, withTraceContext, withTraceProvider } from './trace.js'
 
 const providers: Provider[] = []
 
+// Pending provider calls, keyed like cache entries, so concurrent identical
+// route() calls share one upstream request
+const inFlight = new Map<string, Attempt<ProviderResult<unknown>>>()
+
 export function registerProvider(provider: Provider): void {
 	// Prevent duplicate registration
 	if (providers.some((p) => p.name === provider.name)) return
@@ -15,17 +33,34 @@ export function getProviders(): Provider[] {
 	return [...providers]
 }
 
-export function getProvidersForCategory(category: DataCategory): Provider[] {
+/** Whether a provider can serve the category, and the action if one is given */
+export function supportsAction(
+	provider: Provider,
+	category: DataCategory,
+	action?: string,
+): boolean {
+	if (!provider.capabilities.includes(category)) return false
+	const declared = provider.actions?.[category]
+	return action === undefined || declared === undefined || Object.hasOwn(declared, action)
+}
+
+export function getProvidersForCategory(category: DataCategory, action?: string): Provider[] {
 	const config = loadConfig()
 	const disabled = new Set(config.disabledSources ?? [])
+	// Sources listed in config.providerPriority come first, in the listed order
+	const preferred = config.providerPriority?.[category] ?? []
+	const rank = (p: Provider): number => {
+		const idx = preferred.indexOf(p.name)
+		return idx === -1 ? preferred.length + (p.priority[category] ?? 99) : idx
+	}
 
 	return providers
-		.filter((p) => p.capabilities.includes(category))
+		.filter((p) => supportsAction(p, category, action))
 		.filter((p) => p.isEnabled())
 		.filter((p) => !disabled.has(p.name))
 		.sort((a, b) => {
-			const pa = a.priority[category] ?? 99
-			const pb = b.priority[category] ?? 99
+			const pa = rank(a)
+			const pb = rank(b)
 			if (pa !== pb) return pa - pb
 			// Prefer providers with rate limit headroom
 			const aOk = canRequest(a.name, a.rateLimits) ? 0 : 1
@@ -34,45 +69,381 @@ export function getProvidersForCategory(category: DataCategory): Provider[] {
 		})
 }
 
+function configuredStaleIfError(): number {
+	const value = loadConfig().staleIfError
+	return value === undefined ? 0 : parseDuration(value)
+}
+
 export interface RouteOptions {
 	source?: string
 	noCache?: boolean
+	/** Serve expired cache entries up to this many ms past expiry when every provider fails */
+	staleIfError?: number
+	/** Time limit in ms for each provider attempt; overrides the configured `timeouts` */
+	timeout?: number
+	/** Cancels the request; no further providers are tried once it aborts */
+	signal?: AbortSignal
+}
+
+/** Map parsed global CLI options to route options */
+export function toRouteOptions(opts: GlobalOptions): RouteOptions {
+	return {
+		source: opts.source,
+		noCache: opts.cache === false,
+		staleIfError: opts.staleIfError,
+		timeout: opts.timeout,
+	}
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000
+
+function attemptTimeout(provider: string, options: RouteOptions): number {
+	if (options.timeout !== undefined) return options.timeout
+	const configured = loadConfig().timeouts
+	const value = configured?.[provider] ?? configured?.['*']
+	return value === undefined ? DEFAULT_TIMEOUT_MS : parseDuration(value)
+}
+
+// One provider call, possibly shared by several callers. Its signal aborts only when
+// the last caller waiting for it gives up, so no caller's time limit or cancellation
+// cuts the request short for the others.
+interface Attempt<T> {
+	promise: Promise<T>
+	controller: AbortController
+	waiters: number
+	settled: boolean
+}
+
+function startAttempt<T>(run: (signal: AbortSignal) => Promise<T>): Attempt<T> {
+	const controller = new AbortController()
+	const attempt: Attempt<T> = {
+		promise: withSignal(controller.signal, () => run(controller.signal)),
+		controller,
+		waiters: 0,
+		settled: false,
+	}
+	// Also keeps a rejection nobody waits for anymore from going unhandled
+	const done = () => {
+		attempt.settled = true
+	}
+	attempt.promise.then(done, done)
+	return attempt
+}
+
+// Start an attempt that later identical calls can join while it's pending
+function shareAttempt<T>(key: string, run: (signal: AbortSignal) => Promise<T>): Attempt<T> {
+	const attempt = startAttempt(run)
+	const release = () => {
+		if (inFlight.get(key) === attempt) inFlight.delete(key)
+	}
+	inFlight.set(key, attempt as Attempt<ProviderResult<unknown>>)
+	attempt.promise.then(release, release)
+	// A cancelled attempt can't be joined; the next caller starts a fresh one
+	attempt.controller.signal.addEventListener('abort', release, { once: true })
+	return attempt
+}
+
+// Wait for an attempt within this caller's time limit and signal. Rejects as soon as
+// either runs out, even if the provider ignores its signal; when nobody else is waiting,
+// the attempt is aborted too, which cancels its HTTP calls.
+async function awaitAttempt<T>(
+	provider: Provider,
+	options: RouteOptions,
+	attempt: Attempt<T>,
+): Promise<T> {
+	options.signal?.throwIfAborted()
+	const timeoutMs = attemptTimeout(provider.name, options)
+	let timer: ReturnType<typeof setTimeout> | undefined
+	let onAbort: (() => void) | undefined
+	const gaveUp = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			reject(
+				new TimeoutError(`[${provider.name}] No response within ${timeoutMs}ms`, {
+					timeoutMs,
+					source: provider.name,
+				}),
+			)
+		}, timeoutMs)
+		onAbort = () => reject(options.signal?.reason)
+		options.signal?.addEventListener('abort', onAbort, { once: true })
+	})
+	attempt.waiters++
+	try {
+		return await Promise.race([attempt.promise, gaveUp])
+	} catch (err) {
+		if (attempt.waiters === 1 && !attempt.settled) attempt.controller.abort(err)
+		throw err
+	} finally {
+		attempt.waiters--
+		clearTimeout(timer)
+		if (onAbort) options.signal?.removeEventListener('abort', onAbort)
+	}
 }
 
-export async function route<T = unknown>(
+function fromCache<T>(
+	category: DataCategory,
+	action: string,
+	args: Record<string, unknown>,
+	source: string | undefined,
+	maxStaleMs = 0,
+): ProviderResult<T> | undefined {
+	const cacheKey = { action, ...args }
+	// Try provider-specific cache if source forced, else every enabled provider for the category
+	const names = source
+		? [source]
+		: providers
+				.filter((p) => supportsAction(p, category, action) && p.isEnabled())
+				.map((p) => p.name)
+	for (const name of names) {
+		const hit = cache.lookup<T>(name, category, cacheKey, maxStaleMs)
+		if (!hit) continue
+		cache.recordHit(name, category)
+		emitTrace({ kind: 'cache', hit: true, provider: name, ...(hit.stale && { stale: true }) })
+		return {
+			data: hit.data,
+			source: name,
+			cached: true,
+			cachedAt: hit.storedAt,
+			...(hit.stale && { stale: true }),
+		}
+	}
+	return undefined
+}
+
+/**
+ * Fetch data for a category/action from the best available provider, falling back
+ * on failure. Args are checked against the action's contract (see contracts.ts)
+ * before any provider is tried, and the result is typed by it. Emits trace events
+ * (see onTrace) for the cache lookup and each attempt.
+ */
+export async function route<C extends DataCategory, A extends ActionOf<C>>(
+	category: C,
+	action: A,
+	args: ArgsOf<C, A>,
+	options: RouteOptions = {},
+): Promise<ProviderResult<ResultOf<C, A>>> {
+	return routeTraced<ResultOf<C, A>>(category, action, args, options)
+}
+
+/**
+ * route() for an action without a contract, such as a plugin's own: args go to the
+ * provider as given, and the result is typed by the caller.
+ */
+export async function routeUntyped<T = unknown>(
 	category: DataCategory,
 	action: string,
 	args: Record<string, unknown>,
 	options: RouteOptions = {},
 ): Promise<ProviderResult<T>> {
-	// Check cache first
-	if (!options.noCache) {
-		const cacheKey = { action, ...args }
-		// Try provider-specific cache if source forced
-		if (options.source) {
-			const cached_data = cache.get<T>(options.source, category, cacheKey)
-			if (cached_data) return { data: cached_data, source: options.source, cached: true }
-		} else {
-			// Try cache from enabled providers that support this category
-			for (const p of providers.filter((p) => p.capabilities.includes(category) && p.isEnabled())) {
-				const cached_data = cache.get<T>(p.name, category, cacheKey)
-				if (cached_data) return { data: cached_data, source: p.name, cached: true }
+	return routeTraced<T>(category, action, args, options)
+}
+
+async function routeTraced<T>(
+	category: DataCategory,
+	action: string,
+	args: Record<string, unknown>,
+	options: RouteOptions,
+): Promise<ProviderResult<T>> {
+	const started = Date.now()
+	return withTraceContext({ requestId: newRequestId(), category, action }, async () => {
+		emitTrace({ kind: 'route', args })
+		try {
+			const parsed = parseArgs(category, action, args)
+			const result = await routeUntraced<T>(category, action, parsed, options)
+			emitTrace({
+				kind: 'done',
+				ok: true,
+				provider: result.source,
+				durationMs: Date.now() - started,
+				cached: result.cached,
+				...(result.stale && { stale: true }),
+			})
+			return result
+		} catch (err) {
+			emitTrace({ kind: 'done', ok: false, durationMs: Date.now() - started })
+			throw err
+		}
+	})
+}
+
+/** Outcome of one request in a routeMany() call */
+export type RouteManyItem<Args, T> =
+	| { args: Args; ok: true; result: ProviderResult<T> }
+	| { args: Args; ok: false; error: Error }
+
+export interface RouteManyOptions extends RouteOptions {
+	/** Most requests routed one by one at a time (default 4) */
+	concurrency?: number
+}
+
+const DEFAULT_CONCURRENCY = 4
+
+/**
+ * Route many requests for one category/action, such as quotes for several symbols.
+ * Cache hits are served first; when the provider chosen for the rest has a native batch
+ * endpoint (see Provider.executeBatch), they go out in one call. Anything still open is
+ * routed one by one through route(), at most `concurrency` at a time. Never throws for
+ * a single request: each gets its own result or error, in the order given.
+ */
+export async function routeMany<C extends DataCategory, A extends ActionOf<C>>(
+	category: C,
+	action: A,
+	argsList: ArgsOf<C, A>[],
+	options: RouteManyOptions = {},
+): Promise<RouteManyItem<ArgsOf<C, A>, ResultOf<C, A>>[]> {
+	const settled = await withTraceContext({ requestId: newRequestId(), category, action }, () =>
+		routeBatch<ResultOf<C, A>>(category, action, argsList, options),
+	)
+
+	const items: RouteManyItem<ArgsOf<C, A>, ResultOf<C, A>>[] = []
+	for (const [i, outcome] of settled) {
+		items[i] =
+			outcome instanceof Error
+				? { args: argsList[i], ok: false, error: outcome }
+				: { args: argsList[i], ok: true, result: outcome }
+	}
+
+	const open = argsList.map((_, i) => i).filter((i) => !settled.has(i))
+	const worker = async (): Promise<void> => {
+		for (let i = open.shift(); i !== undefined; i = open.shift()) {
+			const args = argsList[i]
+			try {
+				items[i] = { args, ok: true, result: await route(category, action, args, options) }
+			} catch (err) {
+				items[i] = { args, ok: false, error: err instanceof Error ? err : new Error(String(err)) }
 			}
 		}
 	}
+	const workers = Math.max(1, Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, open.length))
+	await Promise.all(Array.from({ length: workers }, worker))
+	return items
+}
+
+// The cache and native-batch part of routeMany(). Returns the outcomes it could settle,
+// by index; the rest (including items the batch call failed) are routed one by one.
+async function routeBatch<T>(
+	category: DataCategory,
+	action: string,
+	argsList: Record<string, unknown>[],
+	options: RouteOptions,
+): Promise<Map<number, ProviderResult<T> | Error>> {
+	const settled = new Map<number, ProviderResult<T> | Error>()
+	const pending: { index: number; args: Record<string, unknown> }[] = []
+	argsList.forEach((raw, index) => {
+		let args: Record<string, unknown>
+		try {
+			args = parseArgs(category, action, raw)
+		} catch {
+			return // route() reports it
+		}
+		const cached = options.noCache
+			? undefined
+			: fromCache<T>(category, action, args, options.source)
+		if (cached) settled.set(index, cached)
+		else pending.push({ index, args })
+	})
+	if (pending.length < 2) return settled
+
+	// The provider route() would try first; breaker and fallback rules apply one by one.
+	// Picking it must not use up a half-open breaker's one trial, so that waits until
+	// a batch request is actually sent.
+	const provider = getProvidersForCategory(category, action).find((p) =>
+		options.source
+			? p.name === options.source
+			: breaker.getBreakerState(p.name, category) !== 'open',
+	)
+	if (!provider?.executeBatch) return settled
+	if (!options.source && !breaker.canAttempt(provider.name, category)) return settled
+
+	emitTrace({ kind: 'route', args: { batch: pending.map((p) => p.args) } })
+	emitTrace({ kind: 'attempt', provider: provider.name })
+	const started = Date.now()
+	let outcomes: (ProviderResult<T> | Error)[] | undefined
+	try {
+		outcomes = await withTraceProvider(provider.name, () =>
+			awaitAttempt(
+				provider,
+				options,
+				startAttempt(async (signal) =>
+					provider.executeBatch?.<T>(
+						category,
+						action,
+						pending.map((p) => p.args),
+						{ signal },
+					),
+				),
+			),
+		)
+	} catch (err) {
+		const error = err instanceof Error ? err : new Error(String(err))
+		emitTrace({
+			kind: 'failure',
+			provider: provider.name,
+			durationMs: Date.now() - started,
+			errorName: error.name,
+			error: error.message,
+		})
+		// Cancelled by the caller: leave the items to route(), which reports it
+		if (options.signal?.aborted) return settled
+		if (!isLocalRateLimit(error)) breaker.recordFailure(provider.name, category)
+		return settled
+	}
+	if (!outcomes) {
+		emitTrace({ kind: 'skip', provider: provider.name, reason: 'no batch endpoint' })
+		return settled
+	}
+	emitTrace({ kind: 'success', provider: provider.name, durationMs: Date.now() - started })
+	breaker.recordSuccess(provider.name, category)
+
+	pending.forEach(({ index, args }, j) => {
+		const outcome = outcomes[j]
+		if (outcome instanceof Error) {
+			// As in route(): a definitive miss is final, anything else gets the fallbacks
+			if (outcome instanceof SymbolNotFoundError && outcome.definitive) settled.set(index, outcome)
+			return
+		}
+		if (!outcome) return
+		if (!options.noCache) {
+			cache.recordMiss(provider.name, category)
+			cache.set(provider.name, category, { action, ...args }, outcome.data)
+		}
+		settled.set(index, outcome)
+	})
+	return settled
+}
+
+// Refused by omd's own rate limiter (e.g. with --no-wait), so never sent upstream
+function isLocalRateLimit(err: unknown): boolean {
+	return err instanceof RateLimitError && err.local
+}
+
+async function routeUntraced<T>(
+	category: DataCategory,
+	action: string,
+	args: Record<string, unknown>,
+	options: RouteOptions,
+): Promise<ProviderResult<T>> {
+	// Check cache first
+	if (!options.noCache) {
+		const cached = fromCache<T>(category, action, args, options.source)
+		if (cached) return cached
+		emitTrace({ kind: 'cache', hit: false })
+	}
 
-	let candidates = getProvidersForCategory(category)
+	let candidates = getProvidersForCategory(category, action)
 
 	if (options.source) {
 		candidates = candidates.filter((p) => p.name === options.source)
 		if (candidates.length === 0) {
-			throw new Error(`Source "${options.source}" not available for category "${category}"`)
+			throw new NoProviderError(
+				`Source "${options.source}" not available for "${category}/${action}"`,
+			)
 		}
 	}
 
 	if (candidates.length === 0) {
 		// Build helpful error with reasons why providers are unavailable
-		const capable = providers.filter((p) => p.capabilities.includes(category))
+		const capable = providers.filter((p) => supportsAction(p, category, action))
 		const config = loadConfig()
 		const disabledSet = new Set(config.disabledSources ?? [])
 		if (capable.length > 0) {
@@ -93,31 +464,112 @@ export async function route<T = unknown>(
 				if (disabledSet.has(p.name)) return `${p.name}: disabled in config`
 				return `${p.name}: unknown`
 			})
-			throw new Error(
-				`No providers available for "${category}". Providers exist but are not enabled:\n  ${reasons.join('\n  ')}`,
+			throw new NoProviderError(
+				`No providers available for "${category}/${action}". Providers exist but are not enabled:\n  ${reasons.join('\n  ')}`,
 			)
 		}
-		throw new Error(`No providers available for category "${category}"`)
+		const other = providers.some((p) => p.capabilities.includes(category))
+		throw new NoProviderError(
+			other
+				? `No provider supports action "${action}" for category "${category}"`
+				: `No providers available for category "${category}"`,
+		)
 	}
 
-	const errors: Error[] = []
+	const failures: ProviderFailure[] = []
 	for (const provider of candidates) {
+		options.signal?.throwIfAborted()
+		// An explicitly forced source is always tried; otherwise skip providers that keep failing
+		if (!options.source && !breaker.canAttempt(provider.name, category)) {
+			emitTrace({ kind: 'skip', provider: provider.name, reason: 'circuit open' })
+			failures.push({
+				source: provider.name,
+				error: new CircuitOpenError(
+					`[${provider.name}] skipped: circuit open after repeated failures`,
+					{ source: provider.name },
+				),
+			})
+			continue
+		}
+		const attemptStarted = Date.now()
+		const key = cache.makeKey(provider.name, category, { action, ...args })
+		let attempt = inFlight.get(key) as Attempt<ProviderResult<T>> | undefined
+		if (attempt) {
+			emitTrace({ kind: 'coalesced', provider: provider.name })
+			cache.recordCoalesced(provider.name, category)
+		} else {
+			emitTrace({ kind: 'attempt', provider: provider.name })
+			// Breaker and cache bookkeeping happen once, with the request, whoever still waits
+			attempt = shareAttempt(key, (signal) =>
+				withTraceProvider(provider.name, async () => {
+					// Given up on as too slow by the last caller still waiting: one failure, however
+					// many callers shared the request
+					const onAbort = () => {
+						if (signal.reason instanceof TimeoutError)
+							breaker.recordFailure(provider.name, category)
+					}
+					signal.addEventListener('abort', onAbort, { once: true })
+					try {
+						const result = await provider.execute<T>(category, action, args, { signal })
+						breaker.recordSuccess(provider.name, category)
+						if (!options.noCache) {
+							cache.recordMiss(provider.name, category)
+							cache.set(provider.name, category, { action, ...args }, result.data)
+						}
+						return result
+					} catch (err) {
+						// The provider answered fine; an unknown symbol says nothing about its health,
+						// and neither does our own limiter holding the request back. An aborted request
+						// is down to the callers, and time limits are counted above.
+						if (err instanceof SymbolNotFoundError) breaker.recordSuccess(provider.name, category)
+						else if (!signal.aborted && !isLocalRateLimit(err)) {
+							breaker.recordFailure(provider.name, category)
+						}
+						throw err
+					} finally {
+						signal.removeEventListener('abort', onAbort)
+					}
+				}),
+			)
+		}
 		try {
-			const result = await provider.execute<T>(category, action, args)
-			// Cache the result
-			if (!options.noCache) {
-				cache.set(provider.name, category, { action, ...args }, result.data)
-			}
+			const result = await awaitAttempt(provider, options, attempt)
+			emitTrace({
+				kind: 'success',
+				provider: provider.name,
+				durationMs: Date.now() - attemptStarted,
+			})
 			return result
 		} catch (err) {
-			errors.push(err instanceof Error ? err : new Error(String(err)))
+			const error = err instanceof Error ? err : new Error(String(err))
+			emitTrace({
+				kind: 'failure',
+				provider: provider.name,
+				durationMs: Date.now() - attemptStarted,
+				errorName: error.name,
+				error: error.message,
+				...(error.cause instanceof Error &&
+					!error.message.includes(error.cause.message) && { cause: error.cause.message }),
+			})
+			// Cancelled by the caller, not a provider failure: stop here
+			options.signal?.throwIfAborted()
+			failures.push({ source: provider.name, error })
+			if (error instanceof SymbolNotFoundError && error.definitive) throw error
 			// Continue to next provider (fallback)
 		}
 	}
 
+	// Last resort: serve recently expired data rather than nothing
+	const maxStale = options.staleIfError ?? configuredStaleIfError()
+	if (!options.noCache && maxStale > 0) {
+		const stale = fromCache<T>(category, action, args, options.source, maxStale)
+		if (stale) return stale
+	}
+
 	const sources = candidates.map((p) => p.name).join(', ')
-	const lastError = errors[errors.length - 1]
-	throw new Error(
+	const lastError = failures[failures.length - 1]?.error
+	throw new AllProvidersFailedError(
 		`All providers failed for ${category}/${action} (tried: ${sources}): ${lastError?.message}`,
+		failures,
 	)
 }
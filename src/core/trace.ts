@@ -0,0 +1,87 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { DataCategory } from '../providers/types.js'
+
+/** Identifies the route() call (and provider attempt) an event belongs to. */
+export interface TraceContext {
+	requestId: number
+	category: DataCategory
+	action: string
+	provider?: string
+}
+
+export type TraceEvent = Partial<TraceContext> & { time: number } & (
+		| { kind: 'route'; args: Record<string, unknown> }
+		| { kind: 'cache'; hit: boolean; stale?: boolean }
+		| { kind: 'skip'; reason: string }
+		| { kind: 'attempt' }
+		/** Joined an identical request already in flight instead of attempting */
+		| { kind: 'coalesced' }
+		| {
+				kind: 'http'
+				method: string
+				url: string
+				/** 1-based; > 1 when the HTTP layer retried */
+				attempt: number
+				status?: number
+				durationMs: number
+				error?: string
+		  }
+		| { kind: 'success'; durationMs: number }
+		| {
+				kind: 'failure'
+				durationMs: number
+				errorName: string
+				error: string
+				/** Message of the underlying error when the provider wrapped it */
+				cause?: string
+		  }
+		| { kind: 'done'; ok: boolean; durationMs: number; cached?: boolean; stale?: boolean }
+	)
+
+/** Distributes Omit over the union so each variant keeps its own fields. */
+type EventInput = TraceEvent extends infer E
+	? E extends TraceEvent
+		? Omit<E, 'time' | keyof TraceContext> & Partial<TraceContext>
+		: never
+	: never
+
+export type TraceListener = (event: TraceEvent) => void
+
+const listeners = new Set<TraceListener>()
+const context = new AsyncLocalStorage<TraceContext>()
+let nextRequestId = 1
+
+/** Subscribe to trace events. Returns a function that unsubscribes. */
+export function onTrace(listener: TraceListener): () => void {
+	listeners.add(listener)
+	return () => {
+		listeners.delete(listener)
+	}
+}
+
+export function newRequestId(): number {
+	return nextRequestId++
+}
+
+/** Run fn with a trace context; events emitted inside (including HTTP ones) are tagged with it. */
+export function withTraceContext<T>(ctx: TraceContext, fn: () => T): T {
+	return context.run(ctx, fn)
+}
+
+/** Tag events emitted inside fn with the provider being attempted. */
+export function withTraceProvider<T>(provider: string, fn: () => T): T {
+	const ctx = context.getStore()
+	return ctx ? context.run({ ...ctx, provider }, fn) : fn()
+}
+
+export function emitTrace(event: EventInput): void {
+	if (listeners.size === 0) return
+	const full = { time: Date.now(), ...context.getStore(), ...event } as TraceEvent
+	for (const listener of listeners) {
+		try {
+			listener(full)
+		} catch {
+			// A broken listener must not break the request being traced
+		}
+	}
+}
@@ -15,12 +15,67 @@ export type {
 	OptionContract,
 	EarningsData,
 	DividendEvent,
+	MacroSearchResult,
+	MacroCategory,
+	CryptoPrice,
+	CryptoMarketOverview,
 } from './types.js'
 
-export type { DataCategory, Provider, ProviderResult, RateLimitConfig } from './providers/types.js'
+export type { RouteManyItem, RouteManyOptions, RouteOptions } from './core/router.js'
 
-export { route, registerProvider, getProviders, getProvidersForCategory } from './core/router.js'
+export type {
+	ActionCapabilities,
+	BatchItemResult,
+	DataCategory,
+	ExecuteOptions,
+	Provider,
+	ProviderResult,
+	RateLimitConfig,
+} from './providers/types.js'
+
+export {
+	route,
+	routeMany,
+	routeUntyped,
+	registerProvider,
+	getProviders,
+	getProvidersForCategory,
+	supportsAction,
+} from './core/router.js'
+export { CONTRACTS, getContract, parseArgs } from './core/contracts.js'
+export type {
+	ActionOf,
+	ArgsOf,
+	Contract,
+	ContractKey,
+	ResultOf,
+} from './core/contracts.js'
 export { loadConfig, saveConfig, getConfigPath } from './core/config.js'
+export { setFetch, withSignal, type FetchLike } from './core/http.js'
+export { createEnvFetch } from './core/proxy.js'
+export { createRecordingFetch, createReplayFetch, type Fixture } from './core/fixtures.js'
+export { isMockEnabled, mock } from './providers/mock.js'
+export { type MockServer, mockServerFetch, startMockServer } from './providers/mock-server.js'
+export {
+	OmdError,
+	InvalidArgumentError,
+	SymbolNotFoundError,
+	RateLimitError,
+	AuthError,
+	UpstreamError,
+	UpstreamSchemaError,
+	NetworkError,
+	TimeoutError,
+	UnsupportedActionError,
+	CircuitOpenError,
+	NoProviderError,
+	AllProvidersFailedError,
+	EXIT_CODES,
+	exitCodeFor,
+} from './core/errors.js'
+export type { ProviderFailure } from './core/errors.js'
+export { onTrace } from './core/trace.js'
+export type { TraceEvent, TraceListener } from './core/trace.js'
 export * as cache from './core/cache.js'
 export * as rateLimiter from './core/rate-limiter.js'
 export * as formatter from './core/formatter.js'
@@ -1,5 +1,17 @@
+import { z } from 'zod'
 import { loadConfig } from '../core/config.js'
-import { consumeToken } from '../core/rate-limiter.js'
+import { parseUpstream } from '../core/contracts.js'
+import {
+	AuthError,
+	InvalidArgumentError,
+	RateLimitError,
+	SymbolNotFoundError,
+	UnsupportedActionError,
+	UpstreamError,
+	errorFromStatus,
+} from '../core/errors.js'
+import { httpFetch } from '../core/http.js'
+import { acquireToken } from '../core/rate-limiter.js'
 import type { FinancialStatement, HistoricalQuote, QuoteResult, SearchResult } from '../types.js'
 import type { DataCategory, Provider, ProviderResult } from './types.js'
 
@@ -9,16 +21,20 @@ const BASE_URL = 'https://www.alphavantage.co/query'
 function getApiKey(): string {
 	const key = loadConfig().alphaVantageApiKey
 	if (!key) {
-		throw new Error(
+		throw new AuthError(
 			`[${SOURCE}] ALPHA_VANTAGE_API_KEY not set. Run: omd config set alphaVantageApiKey <key>`,
+			{ source: SOURCE },
 		)
 	}
 	return key
 }
 
-async function avFetch<T>(params: Record<string, string>): Promise<T> {
-	if (!consumeToken(SOURCE, alphaVantage.rateLimits)) {
-		throw new Error(`[${SOURCE}] Rate limit exceeded`)
+async function avFetch<S extends z.ZodTypeAny>(
+	params: Record<string, string>,
+	schema: S,
+): Promise<z.output<S>> {
+	if (!(await acquireToken(SOURCE, alphaVantage.rateLimits))) {
+		throw new RateLimitError(`[${SOURCE}] Rate limit exceeded`, { source: SOURCE, local: true })
 	}
 
 	const url = new URL(BASE_URL)
@@ -27,26 +43,31 @@ async function avFetch<T>(params: Record<string, string>): Promise<T> {
 	}
 	url.searchParams.set('apikey', getApiKey())
 
-	const response = await fetch(url.toString())
+	const response = await httpFetch(url.toString())
 
 	if (!response.ok) {
-		throw new Error(`[${SOURCE}] HTTP ${response.status}: ${response.statusText}`)
+		throw errorFromStatus(
+			response.status,
+			`[${SOURCE}] HTTP ${response.status}: ${response.statusText}`,
+			{ source: SOURCE },
+		)
 	}
 
 	const data = (await response.json()) as Record<string, unknown>
 
 	// Alpha Vantage returns 200 with error in the body
 	if (data['Error Message']) {
-		throw new Error(`[${SOURCE}] ${data['Error Message'] as string}`)
+		throw new UpstreamError(`[${SOURCE}] ${data['Error Message'] as string}`, { source: SOURCE })
 	}
+	// Note/Information carry the daily quota and premium-endpoint notices
 	if (data.Note) {
-		throw new Error(`[${SOURCE}] ${data.Note as string}`)
+		throw new RateLimitError(`[${SOURCE}] ${data.Note as string}`, { source: SOURCE })
 	}
 	if (data.Information) {
-		throw new Error(`[${SOURCE}] ${data.Information as string}`)
+		throw new RateLimitError(`[${SOURCE}] ${data.Information as string}`, { source: SOURCE })
 	}
 
-	return data as T
+	return parseUpstream(schema, data, { source: SOURCE, what: params.function })
 }
 
 function toNum(v: unknown): number | undefined {
@@ -55,65 +76,90 @@ function toNum(v: unknown): number | undefined {
 	return Number.isNaN(n) ? undefined : n
 }
 
-interface AVSearchMatch {
-	'1. symbol': string
-	'2. name': string
-	'3. type': string
-	'4. region': string
-	'8. currency': string
-}
-
-interface AVGlobalQuote {
-	'01. symbol': string
-	'02. open': string
-	'03. high': string
-	'04. low': string
-	'05. price': string
-	'06. volume': string
-	'07. latest trading day': string
-	'08. previous close': string
-	'09. change': string
-	'10. change percent': string
-}
-
-interface AVIncomeReport {
-	fiscalDateEnding: string
-	totalRevenue: string
-	grossProfit: string
-	operatingIncome: string
-	netIncome: string
-	operatingCashflow?: string
-}
-
-interface AVBalanceReport {
-	fiscalDateEnding: string
-	totalAssets: string
-	totalLiabilities: string
-	totalShareholderEquity: string
-	longTermDebt: string
-	commonStockSharesOutstanding: string
-}
+// Alpha Vantage sends every number as a string
+const decimal = z.string().min(1).transform(Number).pipe(z.number())
+const percent = z
+	.string()
+	.transform((v) => Number(v.replace('%', '')))
+	.pipe(z.number())
+
+const searchSchema = z.object({
+	bestMatches: z
+		.array(
+			z.object({
+				'1. symbol': z.string(),
+				'2. name': z.string(),
+				'3. type': z.string(),
+				'4. region': z.string(),
+			}),
+		)
+		.default([]),
+})
+
+// Unknown symbols come back as an empty "Global Quote" object
+const quoteEnvelopeSchema = z.object({ 'Global Quote': z.record(z.unknown()).optional() })
+
+const globalQuoteSchema = z.object({
+	'01. symbol': z.string(),
+	'02. open': decimal,
+	'03. high': decimal,
+	'04. low': decimal,
+	'05. price': decimal,
+	'06. volume': decimal,
+	'08. previous close': decimal,
+	'09. change': decimal,
+	'10. change percent': percent,
+})
+
+// Line items may be "None"; toNum() takes care of those
+const incomeReportSchema = z.object({
+	fiscalDateEnding: z.string(),
+	totalRevenue: z.string().optional(),
+	grossProfit: z.string().optional(),
+	operatingIncome: z.string().optional(),
+	netIncome: z.string().optional(),
+	operatingCashflow: z.string().optional(),
+})
+
+const balanceReportSchema = z.object({
+	fiscalDateEnding: z.string(),
+	totalAssets: z.string().optional(),
+	totalLiabilities: z.string().optional(),
+	totalShareholderEquity: z.string().optional(),
+	longTermDebt: z.string().optional(),
+	commonStockSharesOutstanding: z.string().optional(),
+})
+type AVBalanceReport = z.infer<typeof balanceReportSchema>
+
+const reportsSchema = <S extends z.ZodTypeAny>(report: S) =>
+	z.object({
+		annualReports: z.array(report).default([]),
+		quarterlyReports: z.array(report).default([]),
+	})
 
-interface AVTimeSeries {
-	'1. open': string
-	'2. high': string
-	'3. low': string
-	'4. close': string
-	'5. volume': string
-}
+const timeSeriesSchema = z.object({
+	'Time Series (Daily)': z
+		.record(
+			z.object({
+				'1. open': decimal,
+				'2. high': decimal,
+				'3. low': decimal,
+				'4. close': decimal,
+				'5. volume': decimal,
+			}),
+		)
+		.optional(),
+})
 
 async function searchSymbols(
 	args: Record<string, unknown>,
 ): Promise<ProviderResult<SearchResult[]>> {
 	const query = args.query as string
-	if (!query) throw new Error(`[${SOURCE}] search requires query`)
+	if (!query) throw new InvalidArgumentError(`[${SOURCE}] search requires query`)
 
-	const data = await avFetch<{ bestMatches: AVSearchMatch[] }>({
-		function: 'SYMBOL_SEARCH',
-		keywords: query,
-	})
+	const data = await avFetch({ function: 'SYMBOL_SEARCH', keywords: query }, searchSchema)
 
-	const results: SearchResult[] = (data.bestMatches ?? []).map((m) => ({
+	const results: SearchResult[] = data.bestMatches.map((m) => ({
 		symbol: m['1. symbol'],
 		name: m['2. name'],
 		exchange: m['4. region'],
@@ -126,31 +172,30 @@ async function searchSymbols(
 
 async function getQuote(args: Record<string, unknown>): Promise<ProviderResult<QuoteResult>> {
 	const symbol = args.symbol as string
-	if (!symbol) throw new Error(`[${SOURCE}] quote requires symbol`)
+	if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] quote requires symbol`)
 
-	const data = await avFetch<{ 'Global Quote': AVGlobalQuote }>({
-		function: 'GLOBAL_QUOTE',
-		symbol,
-	})
+	const data = await avFetch({ function: 'GLOBAL_QUOTE', symbol }, quoteEnvelopeSchema)
 
-	const q = data['Global Quote']
-	if (!q || !q['01. symbol']) {
-		throw new Error(`[${SOURCE}] No quote data returned for "${symbol}"`)
+	const raw = data['Global Quote']
+	if (!raw?.['01. symbol']) {
+		throw new SymbolNotFoundError(`[${SOURCE}] No quote data returned for "${symbol}"`, {
+			symbol,
+			source: SOURCE,
+		})
 	}
 
-	const changePercentRaw = q['10. change percent'] ?? '0'
-	const changePercent = Number(changePercentRaw.replace('%', ''))
+	const q = parseUpstream(globalQuoteSchema, raw, { source: SOURCE, what: 'GLOBAL_QUOTE' })
 
 	const result: QuoteResult = {
 		symbol: q['01. symbol'],
-		price: toNum(q['05. price']) ?? 0,
-		change: toNum(q['09. change']) ?? 0,
-		changePercent: Number.isNaN(changePercent) ? 0 : changePercent,
-		volume: toNum(q['06. volume']),
-		open: toNum(q['02. open']),
-		previousClose: toNum(q['08. previous close']),
-		dayHigh: toNum(q['03. high']),
-		dayLow: toNum(q['04. low']),
+		price: q['05. price'],
+		change: q['09. change'],
+		changePercent: q['10. change percent'],
+		volume: q['06. volume'],
+		open: q['02. open'],
+		previousClose: q['08. previous close'],
+		dayHigh: q['03. high'],
+		dayLow: q['04. low'],
 		source: SOURCE,
 	}
 
@@ -161,24 +206,18 @@ async function getFinancials(
 	args: Record<string, unknown>,
 ): Promise<ProviderResult<FinancialStatement[]>> {
 	const symbol = args.symbol as string
-	if (!symbol) throw new Error(`[${SOURCE}] financials requires symbol`)
+	if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] financials requires symbol`)
 
 	const period = (args.period as 'annual' | 'quarterly') ?? 'annual'
 	const reportKey = period === 'annual' ? 'annualReports' : 'quarterlyReports'
 
 	const [incomeData, balanceData] = await Promise.all([
-		avFetch<Record<string, AVIncomeReport[]>>({
-			function: 'INCOME_STATEMENT',
-			symbol,
-		}),
-		avFetch<Record<string, AVBalanceReport[]>>({
-			function: 'BALANCE_SHEET',
-			symbol,
-		}),
+		avFetch({ function: 'INCOME_STATEMENT', symbol }, reportsSchema(incomeReportSchema)),
+		avFetch({ function: 'BALANCE_SHEET', symbol }, reportsSchema(balanceReportSchema)),
 	])
 
-	const incomeReports: AVIncomeReport[] = incomeData[reportKey] ?? []
-	const balanceReports: AVBalanceReport[] = balanceData[reportKey] ?? []
+	const incomeReports = incomeData[reportKey]
+	const balanceReports = balanceData[reportKey]
 
 	// Index balance sheet by date for quick lookup
 	const balanceByDate = new Map<string, AVBalanceReport>()
@@ -212,30 +251,32 @@ async function getHistory(
 	args: Record<string, unknown>,
 ): Promise<ProviderResult<HistoricalQuote[]>> {
 	const symbol = args.symbol as string
-	if (!symbol) throw new Error(`[${SOURCE}] history requires symbol`)
+	if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] history requires symbol`)
 
 	const days = (args.days as number) ?? 30
 	const outputsize = days > 100 ? 'full' : 'compact'
 
-	const data = await avFetch<{ 'Time Series (Daily)': Record<string, AVTimeSeries> }>({
-		function: 'TIME_SERIES_DAILY',
-		symbol,
-		outputsize,
-	})
+	const data = await avFetch(
+		{ function: 'TIME_SERIES_DAILY', symbol, outputsize },
+		timeSeriesSchema,
+	)
 
 	const timeSeries = data['Time Series (Daily)']
 	if (!timeSeries) {
-		throw new Error(`[${SOURCE}] No history data returned for "${symbol}"`)
+		throw new SymbolNotFoundError(`[${SOURCE}] No history data returned for "${symbol}"`, {
+			symbol,
+			source: SOURCE,
+		})
 	}
 
 	const quotes: HistoricalQuote[] = Object.entries(timeSeries)
 		.map(([date, bar]) => ({
 			date,
-			open: toNum(bar['1. open']) ?? 0,
-			high: toNum(bar['2. high']) ?? 0,
-			low: toNum(bar['3. low']) ?? 0,
-			close: toNum(bar['4. close']) ?? 0,
-			volume: toNum(bar['5. volume']) ?? 0,
+			open: bar['1. open'],
+			high: bar['2. high'],
+			low: bar['3. low'],
+			close: bar['4. close'],
+			volume: bar['5. volume'],
 		}))
 		.sort((a, b) => b.date.localeCompare(a.date))
 		.slice(0, days)
@@ -248,8 +289,19 @@ export const alphaVantage: Provider = {
 	requiresKey: true,
 	keyEnvVar: 'ALPHA_VANTAGE_API_KEY',
 	capabilities: ['search', 'quote', 'financials', 'history'] as DataCategory[],
+	actions: {
+		search: { search: ['query'] },
+		quote: { get: ['symbol'] },
+		financials: { get: ['symbol', 'period'] },
+		history: { get: ['symbol', 'days'] },
+	},
 	priority: { search: 6, quote: 5, financials: 4, history: 4 },
-	rateLimits: { maxRequests: 25, windowMs: 86_400_000 },
+	// Free tier: 5 requests/minute, 25/day
+	rateLimits: {
+		maxRequests: 5,
+		windowMs: 60_000,
+		quotas: [{ maxRequests: 25, windowMs: 86_400_000 }],
+	},
 
 	isEnabled(): boolean {
 		return !!loadConfig().alphaVantageApiKey
@@ -276,7 +328,7 @@ export const alphaVantage: Provider = {
 				return getHistory(args) as Promise<ProviderResult<T>>
 
 			default:
-				throw new Error(`[${SOURCE}] Unsupported operation: ${key}`)
+				throw new UnsupportedActionError(`[${SOURCE}] Unsupported operation: ${key}`)
 		}
 	},
 }
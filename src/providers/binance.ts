@@ -1,5 +1,15 @@
-import { consumeToken } from '../core/rate-limiter.js'
-import type { CryptoCandle, CryptoQuote } from '../types.js'
+import { z } from 'zod'
+import { parseUpstream } from '../core/contracts.js'
+import {
+	RateLimitError,
+	SymbolNotFoundError,
+	UnsupportedActionError,
+	UpstreamError,
+	errorFromStatus,
+} from '../core/errors.js'
+import { httpFetch } from '../core/http.js'
+import { acquireToken } from '../core/rate-limiter.js'
+import type { CryptoCandle, CryptoPrice, CryptoQuote } from '../types.js'
 import type { DataCategory, Provider, ProviderResult, RateLimitConfig } from './types.js'
 
 const BASE_URL = 'https://api.binance.com'
@@ -12,65 +22,90 @@ const rateLimits: RateLimitConfig = {
 // Cache geo-restriction status to avoid repeated failed requests
 let geoRestricted = false
 
-async function request<T>(path: string): Promise<T> {
+// Binance error code for an unknown trading pair
+const INVALID_SYMBOL = -1121
+
+function geoRestrictedError(): UpstreamError {
+	return new UpstreamError('Binance is geo-restricted in your region (HTTP 451)', {
+		status: 451,
+		source: 'binance',
+	})
+}
+
+async function request<S extends z.ZodTypeAny>(
+	path: string,
+	schema: S,
+	what: string,
+): Promise<z.output<S>> {
 	if (geoRestricted) {
-		throw new Error('Binance is geo-restricted in your region (HTTP 451)')
+		throw geoRestrictedError()
 	}
 
-	if (!consumeToken('binance', rateLimits)) {
-		throw new Error('Binance rate limit exceeded')
+	if (!(await acquireToken('binance', rateLimits))) {
+		throw new RateLimitError('Binance rate limit exceeded', { source: 'binance', local: true })
 	}
 
-	const res = await fetch(`${BASE_URL}${path}`)
+	const res = await httpFetch(`${BASE_URL}${path}`)
 	if (res.status === 451) {
 		geoRestricted = true
-		throw new Error('Binance is geo-restricted in your region (HTTP 451)')
+		throw geoRestrictedError()
 	}
 	if (!res.ok) {
 		const body = await res.text()
-		throw new Error(`Binance API error ${res.status}: ${body}`)
+		const message = `Binance API error ${res.status}: ${body}`
+		if (res.status === 400 && body.includes(`"code":${INVALID_SYMBOL}`)) {
+			const symbol = new URL(path, BASE_URL).searchParams.get('symbol') ?? ''
+			throw new SymbolNotFoundError(message, { symbol, source: 'binance' })
+		}
+		throw errorFromStatus(res.status, message, { source: 'binance' })
 	}
-	return res.json() as Promise<T>
+	return parseUpstream(schema, await res.json(), { source: 'binance', what })
 }
 
-interface Ticker24hr {
-	symbol: string
-	lastPrice: string
-	priceChange: string
-	priceChangePercent: string
-	quoteVolume: string
-	highPrice: string
-	lowPrice: string
-}
-
-interface TickerPrice {
-	symbol: string
-	price: string
-}
-
-type Kline = [
-	number, // openTime
-	string, // open
-	string, // high
-	string, // low
-	string, // close
-	string, // volume
-	...unknown[],
-]
+// Binance sends prices and volumes as decimal strings
+const decimal = z.string().min(1).transform(Number).pipe(z.number())
+
+const ticker24hrSchema = z.object({
+	symbol: z.string(),
+	lastPrice: decimal,
+	priceChange: decimal,
+	priceChangePercent: decimal,
+	quoteVolume: decimal,
+	highPrice: decimal,
+	lowPrice: decimal,
+})
+
+const tickerPriceSchema = z.object({
+	symbol: z.string(),
+	price: decimal,
+})
+
+const klinesSchema = z.array(
+	z
+		.tuple([
+			z.number(), // openTime
+			decimal, // open
+			decimal, // high
+			decimal, // low
+			decimal, // close
+			decimal, // volume
+		])
+		.rest(z.unknown()),
+)
 
 async function getQuote(symbol: string): Promise<ProviderResult<CryptoQuote>> {
 	const pair = `${symbol.toUpperCase()}USDT`
-	const data = await request<Ticker24hr>(`/api/v3/ticker/24hr?symbol=${pair}`)
+	const data = await request(`/api/v3/ticker/24hr?symbol=${pair}`, ticker24hrSchema, 'ticker')
 
 	return {
 		data: {
 			symbol: symbol.toUpperCase(),
-			price: Number(data.lastPrice),
-			change24h: Number(data.priceChange),
-			changePercent24h: Number(data.priceChangePercent),
-			volume24h: Number(data.quoteVolume),
-			high24h: Number(data.highPrice),
-			low24h: Number(data.lowPrice),
+			price: data.lastPrice,
+			change24h: data.priceChange,
+			changePercent24h: data.priceChangePercent,
+			volume24h: data.quoteVolume,
+			high24h: data.highPrice,
+			low24h: data.lowPrice,
 			source: 'binance',
 		},
 		source: 'binance',
@@ -84,17 +119,19 @@ async function getHistory(
 	interval = '1d',
 ): Promise<ProviderResult<CryptoCandle[]>> {
 	const pair = `${symbol.toUpperCase()}USDT`
-	const data = await request<Kline[]>(
+	const data = await request(
 		`/api/v3/klines?symbol=${pair}&interval=${interval}&limit=${days}`,
+		klinesSchema,
+		'klines',
 	)
 
 	const candles: CryptoCandle[] = data.map((k) => ({
 		time: new Date(k[0]).toISOString(),
-		open: Number(k[1]),
-		high: Number(k[2]),
-		low: Number(k[3]),
-		close: Number(k[4]),
-		volume: Number(k[5]),
+		open: k[1],
+		high: k[2],
+		low: k[3],
+		close: k[4],
+		volume: k[5],
 	}))
 
 	return {
@@ -104,16 +141,14 @@ async function getHistory(
 	}
 }
 
-async function getPrice(
-	symbol: string,
-): Promise<ProviderResult<{ symbol: string; price: number }>> {
+async function getPrice(symbol: string): Promise<ProviderResult<CryptoPrice>> {
 	const pair = `${symbol.toUpperCase()}USDT`
-	const data = await request<TickerPrice>(`/api/v3/ticker/price?symbol=${pair}`)
+	const data = await request(`/api/v3/ticker/price?symbol=${pair}`, tickerPriceSchema, 'price')
 
 	return {
 		data: {
 			symbol: symbol.toUpperCase(),
-			price: Number(data.price),
+			price: data.price,
 		},
 		source: 'binance',
 		cached: false,
@@ -124,6 +159,9 @@ export const binance: Provider = {
 	name: 'binance',
 	requiresKey: false,
 	capabilities: ['crypto'] as DataCategory[],
+	actions: {
+		crypto: { quote: ['symbol'], history: ['symbol', 'days', 'interval'], price: ['symbol'] },
+	},
 	priority: { crypto: 1 },
 	rateLimits,
 
@@ -151,7 +189,7 @@ export const binance: Provider = {
 				return (await getPrice(args.symbol as string)) as ProviderResult<T>
 
 			default:
-				throw new Error(`Binance does not support action: ${action}`)
+				throw new UnsupportedActionError(`Binance does not support action: ${action}`)
 		}
 	},
 }
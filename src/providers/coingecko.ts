@@ -1,13 +1,25 @@
+import { z } from 'zod'
 import { loadConfig } from '../core/config.js'
-import { consumeToken } from '../core/rate-limiter.js'
-import type { CryptoCandle, CryptoQuote, SearchResult } from '../types.js'
+import { parseUpstream } from '../core/contracts.js'
+import {
+	AuthError,
+	RateLimitError,
+	SymbolNotFoundError,
+	UnsupportedActionError,
+	errorFromStatus,
+} from '../core/errors.js'
+import { httpFetch } from '../core/http.js'
+import { acquireToken } from '../core/rate-limiter.js'
+import type { CryptoCandle, CryptoMarketOverview, CryptoQuote, SearchResult } from '../types.js'
 import type { DataCategory, Provider, ProviderResult, RateLimitConfig } from './types.js'
 
 const BASE_URL = 'https://api.coingecko.com/api/v3'
 
+// Demo plan: 30 calls/minute, 10,000/month (tracked as 30-day windows)
 const rateLimits: RateLimitConfig = {
 	maxRequests: 30,
 	windowMs: 60_000,
+	quotas: [{ maxRequests: 10_000, windowMs: 30 * 86_400_000 }],
 }
 
 const SYMBOL_TO_ID: Record<string, string> = {
@@ -31,69 +43,95 @@ function getApiKey(): string {
 	const config = loadConfig()
 	const key = config.coingeckoApiKey
 	if (!key) {
-		throw new Error(
+		throw new AuthError(
 			'CoinGecko API key not configured. Set COINGECKO_API_KEY or run: omd config set coingeckoApiKey <key>',
+			{ source: 'coingecko' },
 		)
 	}
 	return key
 }
 
-async function request<T>(path: string): Promise<T> {
-	if (!consumeToken('coingecko', rateLimits)) {
-		throw new Error('CoinGecko rate limit exceeded')
+async function request<S extends z.ZodTypeAny>(
+	path: string,
+	schema: S,
+	what: string,
+): Promise<z.output<S>> {
+	if (!(await acquireToken('coingecko', rateLimits))) {
+		throw new RateLimitError('CoinGecko rate limit exceeded', { source: 'coingecko', local: true })
 	}
 
 	const key = getApiKey()
-	const res = await fetch(`${BASE_URL}${path}`, {
+	const res = await httpFetch(`${BASE_URL}${path}`, {
 		headers: { 'x-cg-demo-api-key': key },
 	})
 
 	if (!res.ok) {
 		const body = await res.text()
-		throw new Error(`CoinGecko API error ${res.status}: ${body}`)
+		throw errorFromStatus(res.status, `CoinGecko API error ${res.status}: ${body}`, {
+			source: 'coingecko',
+		})
 	}
-	return res.json() as Promise<T>
+	return parseUpstream(schema, await res.json(), { source: 'coingecko', what })
 }
 
-interface SearchCoin {
-	id: string
-	name: string
-	symbol: string
-	market_cap_rank: number | null
-}
-
-interface SearchResponse {
-	coins: SearchCoin[]
-}
+const searchSchema = z.object({
+	coins: z.array(
+		z.object({
+			id: z.string(),
+			name: z.string(),
+			symbol: z.string(),
+			market_cap_rank: z.number().nullable(),
+		}),
+	),
+})
 
 async function resolveCoinId(symbol: string): Promise<string> {
 	const upper = symbol.toUpperCase()
 	const mapped = SYMBOL_TO_ID[upper]
 	if (mapped) return mapped
 
-	const data = await request<SearchResponse>(`/search?query=${encodeURIComponent(symbol)}`)
+	const data = await request(`/search?query=${encodeURIComponent(symbol)}`, searchSchema, 'search')
 	if (data.coins.length === 0) {
-		throw new Error(`CoinGecko: could not resolve coin ID for symbol "${symbol}"`)
+		throw new SymbolNotFoundError(`CoinGecko: could not resolve coin ID for symbol "${symbol}"`, {
+			symbol,
+			source: 'coingecko',
+		})
 	}
 	return data.coins[0].id
 }
 
-interface SimplePriceEntry {
-	usd: number
-	usd_24h_change?: number
-	usd_24h_vol?: number
-	usd_market_cap?: number
-}
+const simplePriceSchema = z.record(
+	z.object({
+		usd: z.number(),
+		usd_24h_change: z
+			.number()
+			.nullish()
+			.transform((v) => v ?? undefined),
+		usd_24h_vol: z
+			.number()
+			.nullish()
+			.transform((v) => v ?? undefined),
+		usd_market_cap: z
+			.number()
+			.nullish()
+			.transform((v) => v ?? undefined),
+	}),
+)
 
 async function getQuote(symbol: string): Promise<ProviderResult<CryptoQuote>> {
 	const id = await resolveCoinId(symbol)
-	const data = await request<Record<string, SimplePriceEntry>>(
+	const data = await request(
 		`/simple/price?ids=${id}&vs_currencies=usd&include_24hr_change=true&include_24hr_vol=true&include_market_cap=true`,
+		simplePriceSchema,
+		'simple price',
 	)
 
 	const entry = data[id]
 	if (!entry) {
-		throw new Error(`CoinGecko: no price data for "${id}"`)
+		throw new SymbolNotFoundError(`CoinGecko: no price data for "${id}"`, {
+			symbol,
+			source: 'coingecko',
+		})
 	}
 
 	const changePercent = entry.usd_24h_change
@@ -115,25 +153,29 @@ async function getQuote(symbol: string): Promise<ProviderResult<CryptoQuote>> {
 	}
 }
 
-interface MarketCoin {
-	id: string
-	symbol: string
-	name: string
-	current_price: number
-	market_cap: number
-	market_cap_rank: number
-	total_volume: number
-	high_24h: number | null
-	low_24h: number | null
-	price_change_24h: number | null
-	price_change_percentage_24h: number | null
-	circulating_supply: number | null
-	ath: number | null
-}
+const marketsSchema = z.array(
+	z.object({
+		id: z.string(),
+		symbol: z.string(),
+		name: z.string(),
+		current_price: z.number(),
+		market_cap: z.number(),
+		market_cap_rank: z.number(),
+		total_volume: z.number(),
+		high_24h: z.number().nullable(),
+		low_24h: z.number().nullable(),
+		price_change_24h: z.number().nullable(),
+		price_change_percentage_24h: z.number().nullable(),
+		circulating_supply: z.number().nullable(),
+		ath: z.number().nullable(),
+	}),
+)
 
 async function getTop(limit = 10): Promise<ProviderResult<CryptoQuote[]>> {
-	const data = await request<MarketCoin[]>(
+	const data = await request(
 		`/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${limit}&sparkline=false`,
+		marketsSchema,
+		'markets',
 	)
 
 	const quotes: CryptoQuote[] = data.map((c) => ({
@@ -155,12 +197,13 @@ async function getTop(limit = 10): Promise<ProviderResult<CryptoQuote[]>> {
 	return { data: quotes, source: 'coingecko', cached: false }
 }
 
-type OhlcEntry = [number, number, number, number, number]
+// [timestamp, open, high, low, close]
+const ohlcSchema = z.array(z.tuple([z.number(), z.number(), z.number(), z.number(), z.number()]))
 
-interface MarketChartResponse {
-	prices: [number, number][]
-	total_volumes: [number, number][]
-}
+const marketChartSchema = z.object({
+	prices: z.array(z.tuple([z.number(), z.number()])),
+	total_volumes: z.array(z.tuple([z.number(), z.number()])),
+})
 
 // CoinGecko OHLC endpoint only accepts specific day values
 const VALID_OHLC_DAYS = [1, 7, 14, 30, 90, 180, 365]
@@ -186,9 +229,13 @@ async function getHistory(
 	// The --interval flag is only honored by Binance; CoinGecko uses days-based auto-interval.
 	const ohlcDays = snapToValidDays(days)
 	const [ohlcData, chartData] = await Promise.all([
-		request<OhlcEntry[]>(`/coins/${id}/ohlc?vs_currency=usd&days=${ohlcDays}`),
+		request(`/coins/${id}/ohlc?vs_currency=usd&days=${ohlcDays}`, ohlcSchema, 'ohlc'),
 		// Use same snapped days so volume data covers the full OHLC range
-		request<MarketChartResponse>(`/coins/${id}/market_chart?vs_currency=usd&days=${ohlcDays}`),
+		request(
+			`/coins/${id}/market_chart?vs_currency=usd&days=${ohlcDays}`,
+			marketChartSchema,
+			'market chart',
+		),
 	])
 
 	// Build a volume lookup by timestamp (rounded to nearest hour)
@@ -212,61 +259,57 @@ async function getHistory(
 	return { data: candles, source: 'coingecko', cached: false }
 }
 
-interface TrendingCoin {
-	item: {
-		id: string
-		coin_id: number
-		name: string
-		symbol: string
-		market_cap_rank: number | null
-		price_btc: number
-		data?: {
-			price: number
-			price_change_percentage_24h?: Record<string, number>
-			market_cap?: string
-			total_volume?: string
-		}
-	}
-}
-
-interface TrendingResponse {
-	coins: TrendingCoin[]
-}
+const trendingSchema = z.object({
+	coins: z.array(
+		z.object({
+			item: z.object({
+				id: z.string(),
+				name: z.string(),
+				symbol: z.string(),
+				market_cap_rank: z.number().nullable(),
+				data: z.object({
+					price: z.number(),
+					price_change_percentage_24h: z.record(z.number()).optional(),
+				}),
+			}),
+		}),
+	),
+})
 
 async function getTrending(): Promise<ProviderResult<CryptoQuote[]>> {
-	const data = await request<TrendingResponse>('/search/trending')
+	const data = await request('/search/trending', trendingSchema, 'trending')
 
 	const quotes: CryptoQuote[] = data.coins.map((c) => ({
 		symbol: c.item.symbol.toUpperCase(),
 		name: c.item.name,
-		price: c.item.data?.price ?? 0,
+		price: c.item.data.price,
 		marketCapRank: c.item.market_cap_rank ?? undefined,
-		changePercent24h: c.item.data?.price_change_percentage_24h?.usd,
+		changePercent24h: c.item.data.price_change_percentage_24h?.usd,
 		source: 'coingecko',
 	}))
 
 	return { data: quotes, source: 'coingecko', cached: false }
 }
 
-interface GlobalData {
-	data: {
-		active_cryptocurrencies: number
-		markets: number
-		total_market_cap: Record<string, number>
-		total_volume: Record<string, number>
-		market_cap_percentage: Record<string, number>
-		market_cap_change_percentage_24h_usd: number
-	}
-}
+const globalSchema = z.object({
+	data: z.object({
+		active_cryptocurrencies: z.number(),
+		markets: z.number(),
+		total_market_cap: z.record(z.number()),
+		total_volume: z.record(z.number()),
+		market_cap_percentage: z.record(z.number()),
+		market_cap_change_percentage_24h_usd: z.number(),
+	}),
+})
 
-async function getGlobal(): Promise<ProviderResult<GlobalData['data']>> {
-	const data = await request<GlobalData>('/global')
+async function getGlobal(): Promise<ProviderResult<CryptoMarketOverview>> {
+	const data = await request('/global', globalSchema, 'global')
 
 	return { data: data.data, source: 'coingecko', cached: false }
 }
 
 async function search(query: string): Promise<ProviderResult<SearchResult[]>> {
-	const data = await request<SearchResponse>(`/search?query=${encodeURIComponent(query)}`)
+	const data = await request(`/search?query=${encodeURIComponent(query)}`, searchSchema, 'search')
 
 	const results: SearchResult[] = data.coins.map((c) => ({
 		symbol: c.symbol.toUpperCase(),
@@ -283,6 +326,16 @@ export const coingecko: Provider = {
 	requiresKey: true,
 	keyEnvVar: 'COINGECKO_API_KEY',
 	capabilities: ['crypto', 'search'] as DataCategory[],
+	actions: {
+		crypto: {
+			quote: ['symbol'],
+			top: ['limit'],
+			history: ['symbol', 'days', 'interval'],
+			trending: [],
+			global: [],
+		},
+		search: { search: ['query'] },
+	},
 	priority: { crypto: 2, search: 4 },
 	rateLimits,
 
@@ -300,7 +353,7 @@ export const coingecko: Provider = {
 				case 'search':
 					return (await search(args.query as string)) as ProviderResult<T>
 				default:
-					throw new Error(`CoinGecko search does not support action: ${action}`)
+					throw new UnsupportedActionError(`CoinGecko search does not support action: ${action}`)
 			}
 		}
 
@@ -326,7 +379,7 @@ export const coingecko: Provider = {
 				return (await getGlobal()) as ProviderResult<T>
 
 			default:
-				throw new Error(`CoinGecko crypto does not support action: ${action}`)
+				throw new UnsupportedActionError(`CoinGecko crypto does not support action: ${action}`)
 		}
 	},
 }
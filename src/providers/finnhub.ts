@@ -1,5 +1,17 @@
+import { z } from 'zod'
 import { loadConfig } from '../core/config.js'
-import { consumeToken } from '../core/rate-limiter.js'
+import { parseUpstream } from '../core/contracts.js'
+import {
+	AuthError,
+	InvalidArgumentError,
+	RateLimitError,
+	SymbolNotFoundError,
+	UnsupportedActionError,
+	UpstreamError,
+	errorFromStatus,
+} from '../core/errors.js'
+import { httpFetch } from '../core/http.js'
+import { acquireToken } from '../core/rate-limiter.js'
 import type { EarningsData, HistoricalQuote, QuoteResult, SearchResult } from '../types.js'
 import type { DataCategory, Provider, ProviderResult, RateLimitConfig } from './types.js'
 
@@ -13,43 +25,56 @@ const rateLimits: RateLimitConfig = {
 
 function getKey(): string {
 	const key = loadConfig().finnhubApiKey
-	if (!key)
-		throw new Error(`[${SOURCE}] FINNHUB_API_KEY not set. Run: omd config set finnhubApiKey <key>`)
+	if (!key) {
+		throw new AuthError(
+			`[${SOURCE}] FINNHUB_API_KEY not set. Run: omd config set finnhubApiKey <key>`,
+			{ source: SOURCE },
+		)
+	}
 	return key
 }
 
-async function request<T>(path: string): Promise<T> {
-	if (!consumeToken(SOURCE, rateLimits)) {
-		throw new Error(`[${SOURCE}] Rate limit exceeded`)
+async function request<S extends z.ZodTypeAny>(
+	path: string,
+	schema: S,
+	what: string,
+): Promise<z.output<S>> {
+	if (!(await acquireToken(SOURCE, rateLimits))) {
+		throw new RateLimitError(`[${SOURCE}] Rate limit exceeded`, { source: SOURCE, local: true })
 	}
 
 	const separator = path.includes('?') ? '&' : '?'
 	const url = `${BASE_URL}${path}${separator}token=${getKey()}`
 
-	const res = await fetch(url)
+	const res = await httpFetch(url)
 	if (!res.ok) {
 		const body = await res.text()
-		throw new Error(`[${SOURCE}] API error ${res.status}: ${body}`)
+		throw errorFromStatus(res.status, `[${SOURCE}] API error ${res.status}: ${body}`, {
+			source: SOURCE,
+		})
 	}
-	return res.json() as Promise<T>
+	return parseUpstream(schema, await res.json(), { source: SOURCE, what })
 }
 
 // --- Search ---
 
-interface FinnhubSearchResult {
-	count: number
-	result: Array<{
-		description: string
-		displaySymbol: string
-		symbol: string
-		type: string
-	}>
-}
+const searchSchema = z.object({
+	result: z
+		.array(
+			z.object({
+				description: z.string(),
+				displaySymbol: z.string(),
+				symbol: z.string(),
+				type: z.string(),
+			}),
+		)
+		.default([]),
+})
 
 async function search(query: string): Promise<ProviderResult<SearchResult[]>> {
-	const data = await request<FinnhubSearchResult>(`/search?q=${encodeURIComponent(query)}`)
+	const data = await request(`/search?q=${encodeURIComponent(query)}`, searchSchema, 'search')
 
-	const results: SearchResult[] = (data.result ?? []).map((r) => ({
+	const results: SearchResult[] = data.result.map((r) => ({
 		symbol: r.symbol,
 		name: r.description,
 		type: r.type,
@@ -61,24 +86,30 @@ async function search(query: string): Promise<ProviderResult<SearchResult[]>> {
 
 // --- Quote ---
 
-interface FinnhubQuote {
-	c: number
-	d: number | null
-	dp: number | null
-	h: number
-	l: number
-	o: number
-	pc: number
-	t: number
-}
+// Unknown tickers come back as all zeros rather than an error
+const quoteSchema = z.object({
+	c: z.number(),
+	d: z.number().nullable(),
+	dp: z.number().nullable(),
+	h: z.number(),
+	l: z.number(),
+	o: z.number(),
+	pc: z.number(),
+	t: z.number(),
+})
 
 async function getQuote(symbol: string): Promise<ProviderResult<QuoteResult>> {
-	const data = await request<FinnhubQuote>(
+	const data = await request(
 		`/quote?symbol=${encodeURIComponent(symbol.toUpperCase())}`,
+		quoteSchema,
+		'quote',
 	)
 
 	if (data.c === 0 && data.h === 0 && data.l === 0 && data.o === 0 && data.pc === 0) {
-		throw new Error(`[${SOURCE}] No quote data for "${symbol}" — ticker may be invalid`)
+		throw new SymbolNotFoundError(
+			`[${SOURCE}] No quote data for "${symbol}" — ticker may be invalid`,
+			{ symbol, source: SOURCE },
+		)
 	}
 
 	return {
@@ -100,20 +131,22 @@ async function getQuote(symbol: string): Promise<ProviderResult<QuoteResult>> {
 
 // --- Earnings ---
 
-interface FinnhubEarning {
-	actual: number | null
-	estimate: number | null
-	period: string
-	surprisePercent: number | null
-	symbol: string
-}
+const earningsSchema = z.array(
+	z.object({
+		actual: z.number().nullable(),
+		estimate: z.number().nullable(),
+		period: z.string(),
+	}),
+)
 
 async function getEarnings(symbol: string): Promise<ProviderResult<EarningsData[]>> {
-	const data = await request<FinnhubEarning[]>(
+	const data = await request(
 		`/stock/earnings?symbol=${encodeURIComponent(symbol.toUpperCase())}`,
+		earningsSchema,
+		'earnings',
 	)
 
-	const results: EarningsData[] = (data ?? []).map((e) => ({
+	const results: EarningsData[] = data.map((e) => ({
 		symbol: symbol.toUpperCase(),
 		earningsDate: e.period,
 		epsActual: e.actual ?? undefined,
@@ -126,27 +159,31 @@ async function getEarnings(symbol: string): Promise<ProviderResult<EarningsData[
 
 // --- History (candles) ---
 
-interface FinnhubCandles {
-	c: number[]
-	h: number[]
-	l: number[]
-	o: number[]
-	s: string
-	t: number[]
-	v: number[]
-}
+// Parallel arrays, one entry per bar; only `s` is present when there is no data
+const candlesSchema = z.object({
+	s: z.string(),
+	c: z.array(z.number()).default([]),
+	h: z.array(z.number()).default([]),
+	l: z.array(z.number()).default([]),
+	o: z.array(z.number()).default([]),
+	t: z.array(z.number()).default([]),
+	v: z.array(z.number()).default([]),
+})
 
 async function getHistory(symbol: string, days = 30): Promise<ProviderResult<HistoricalQuote[]>> {
 	const now = Math.floor(Date.now() / 1000)
 	const from = now - days * 86_400
 
-	const data = await request<FinnhubCandles>(
+	const data = await request(
 		`/stock/candle?symbol=${encodeURIComponent(symbol.toUpperCase())}&resolution=D&from=${from}&to=${now}`,
+		candlesSchema,
+		'candles',
 	)
 
 	if (data.s !== 'ok') {
-		throw new Error(
+		throw new UpstreamError(
 			`[${SOURCE}] Candle data not available for "${symbol}" (status: ${data.s}). This endpoint may require a paid plan.`,
+			{ source: SOURCE },
 		)
 	}
 
@@ -169,6 +206,11 @@ export const finnhub: Provider = {
 	requiresKey: true,
 	keyEnvVar: 'FINNHUB_API_KEY',
 	capabilities: ['search', 'quote', 'earnings'] as DataCategory[],
+	actions: {
+		search: { search: ['query'] },
+		quote: { get: ['symbol'] },
+		earnings: { get: ['symbol'] },
+	},
 	priority: { search: 5, quote: 3, earnings: 2 },
 	rateLimits,
 
@@ -186,31 +228,31 @@ export const finnhub: Provider = {
 		switch (key) {
 			case 'search/search': {
 				const query = args.query as string
-				if (!query) throw new Error(`[${SOURCE}] search requires query`)
+				if (!query) throw new InvalidArgumentError(`[${SOURCE}] search requires query`)
 				return (await search(query)) as ProviderResult<T>
 			}
 
 			case 'quote/get': {
 				const symbol = args.symbol as string
-				if (!symbol) throw new Error(`[${SOURCE}] quote requires symbol`)
+				if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] quote requires symbol`)
 				return (await getQuote(symbol)) as ProviderResult<T>
 			}
 
 			case 'earnings/get': {
 				const symbol = args.symbol as string
-				if (!symbol) throw new Error(`[${SOURCE}] earnings requires symbol`)
+				if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] earnings requires symbol`)
 				return (await getEarnings(symbol)) as ProviderResult<T>
 			}
 
 			case 'history/get': {
 				const symbol = args.symbol as string
-				if (!symbol) throw new Error(`[${SOURCE}] history requires symbol`)
+				if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] history requires symbol`)
 				const days = (args.days as number) ?? 30
 				return (await getHistory(symbol, days)) as ProviderResult<T>
 			}
 
 			default:
-				throw new Error(`[${SOURCE}] Unsupported operation: ${key}`)
+				throw new UnsupportedActionError(`[${SOURCE}] Unsupported operation: ${key}`)
 		}
 	},
 }
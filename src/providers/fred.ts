@@ -1,55 +1,72 @@
+import { z } from 'zod'
 import { loadConfig } from '../core/config.js'
-import { consumeToken } from '../core/rate-limiter.js'
-import type { MacroDataPoint, MacroSeries, SearchResult } from '../types.js'
+import { parseUpstream } from '../core/contracts.js'
+import {
+	AuthError,
+	InvalidArgumentError,
+	RateLimitError,
+	SymbolNotFoundError,
+	UnsupportedActionError,
+	errorFromStatus,
+} from '../core/errors.js'
+import { httpFetch } from '../core/http.js'
+import { acquireToken } from '../core/rate-limiter.js'
+import type {
+	MacroCategory,
+	MacroDataPoint,
+	MacroSearchResult,
+	MacroSeries,
+	SearchResult,
+} from '../types.js'
 import type { DataCategory, Provider, ProviderResult } from './types.js'
 
 const BASE_URL = 'https://api.stlouisfed.org/fred'
 
-interface FredObservation {
-	date: string
-	value: string
-}
+// Missing observations are reported as the value "."
+const observationsSchema = z.object({
+	observations: z.array(z.object({ date: z.string(), value: z.string() })),
+})
 
-interface FredSeriesInfo {
-	id: string
-	title: string
-	units: string
-	frequency: string
-	seasonal_adjustment: string
-}
+const seriesInfoSchema = z.object({
+	id: z.string(),
+	title: z.string(),
+	units: z.string(),
+	frequency: z.string(),
+	seasonal_adjustment: z.string(),
+})
 
-interface FredSeriesSearchResult {
-	id: string
-	title: string
-	units: string
-	frequency: string
-	seasonal_adjustment: string
-	popularity: number
-}
+const seriesSchema = z.object({ seriess: z.array(seriesInfoSchema) })
 
-interface FredCategory {
-	id: number
-	name: string
-	parent_id: number
-}
+const seriesSearchSchema = z.object({
+	seriess: z.array(seriesInfoSchema.extend({ popularity: z.number() })),
+})
+
+const categoriesSchema = z.object({
+	categories: z.array(z.object({ id: z.number(), name: z.string(), parent_id: z.number() })),
+})
 
 function getApiKey(): string | undefined {
 	return loadConfig().fredApiKey
 }
 
-async function fredFetch<T>(
+async function fredFetch<S extends z.ZodTypeAny>(
 	path: string,
+	schema: S,
 	params: Record<string, string | number | undefined>,
-): Promise<T> {
+): Promise<z.output<S>> {
 	const apiKey = getApiKey()
 	if (!apiKey) {
-		throw new Error(
+		throw new AuthError(
 			'FRED API key not configured. Set FRED_API_KEY env var or run: omd config set fredApiKey <key>',
+			{ source: 'fred' },
 		)
 	}
 
-	if (!consumeToken('fred', fred.rateLimits)) {
-		throw new Error('FRED rate limit exceeded. Try again shortly.')
+	if (!(await acquireToken('fred', fred.rateLimits))) {
+		throw new RateLimitError('FRED rate limit exceeded. Try again shortly.', {
+			source: 'fred',
+			local: true,
+		})
 	}
 
 	const url = new URL(`${BASE_URL}${path}`)
@@ -62,14 +79,19 @@ async function fredFetch<T>(
 		}
 	}
 
-	const response = await fetch(url.toString())
+	const response = await httpFetch(url.toString())
 
 	if (!response.ok) {
 		const text = await response.text()
-		throw new Error(`FRED API error (${response.status}): ${text}`)
+		const message = `FRED API error (${response.status}): ${text}`
+		// FRED answers 400 "The series does not exist." for unknown series IDs
+		if (response.status === 400 && params.series_id && text.includes('does not exist')) {
+			throw new SymbolNotFoundError(message, { symbol: String(params.series_id), source: 'fred' })
+		}
+		throw errorFromStatus(response.status, message, { source: 'fred' })
 	}
 
-	return response.json() as Promise<T>
+	return parseUpstream(schema, await response.json(), { source: 'fred', what: path })
 }
 
 async function getSeriesObservations(
@@ -77,7 +99,7 @@ async function getSeriesObservations(
 ): Promise<ProviderResult<MacroSeries>> {
 	const seriesId = args.seriesId as string
 	if (!seriesId) {
-		throw new Error('seriesId is required')
+		throw new InvalidArgumentError('seriesId is required')
 	}
 
 	const start = args.start as string | undefined
@@ -87,14 +109,14 @@ async function getSeriesObservations(
 	// When limit is specified, fetch in descending order so we get the most recent observations
 	const useDesc = limit != null && !start
 	const [obsData, metaData] = await Promise.all([
-		fredFetch<{ observations: FredObservation[] }>('/series/observations', {
+		fredFetch('/series/observations', observationsSchema, {
 			series_id: seriesId,
 			observation_start: start,
 			observation_end: end,
 			limit: useDesc ? limit : undefined,
 			sort_order: useDesc ? 'desc' : undefined,
 		}),
-		fredFetch<{ seriess: FredSeriesInfo[] }>('/series', {
+		fredFetch('/series', seriesSchema, {
 			series_id: seriesId,
 		}),
 	])
@@ -133,15 +155,15 @@ async function getSeriesObservations(
 
 async function searchSeries(
 	args: Record<string, unknown>,
-): Promise<ProviderResult<FredSeriesSearchResult[]>> {
+): Promise<ProviderResult<MacroSearchResult[]>> {
 	const query = args.query as string
 	if (!query) {
-		throw new Error('query is required')
+		throw new InvalidArgumentError('query is required')
 	}
 
 	const limit = (args.limit as number | undefined) ?? 20
 
-	const data = await fredFetch<{ seriess: FredSeriesSearchResult[] }>('/series/search', {
+	const data = await fredFetch('/series/search', seriesSearchSchema, {
 		search_text: query,
 		limit,
 		order_by: 'popularity',
@@ -162,10 +184,10 @@ async function searchSeries(
 
 async function getCategories(
 	args: Record<string, unknown>,
-): Promise<ProviderResult<{ id: number; name: string; parentId: number }[]>> {
+): Promise<ProviderResult<MacroCategory[]>> {
 	const categoryId = (args.categoryId as number | undefined) ?? 0
 
-	const data = await fredFetch<{ categories: FredCategory[] }>('/category/children', {
+	const data = await fredFetch('/category/children', categoriesSchema, {
 		category_id: categoryId,
 	})
 
@@ -198,6 +220,14 @@ export const fred: Provider = {
 	requiresKey: true,
 	keyEnvVar: 'FRED_API_KEY',
 	capabilities: ['macro', 'search'] as DataCategory[],
+	actions: {
+		macro: {
+			get: ['seriesId', 'start', 'end', 'limit'],
+			search: ['query', 'limit'],
+			categories: ['categoryId'],
+		},
+		search: { search: ['query', 'limit'] },
+	},
 	priority: { macro: 1, search: 5 },
 	rateLimits: { maxRequests: 120, windowMs: 60_000 },
 
@@ -226,7 +256,7 @@ export const fred: Provider = {
 				return searchForSearchCategory(args) as Promise<ProviderResult<T>>
 
 			default:
-				throw new Error(`FRED provider does not support ${route}`)
+				throw new UnsupportedActionError(`FRED provider does not support ${route}`)
 		}
 	},
 }
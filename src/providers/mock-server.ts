@@ -0,0 +1,485 @@
+import { type IncomingMessage, type ServerResponse, createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { NetworkError, UnsupportedActionError } from '../core/errors.js'
+import { type FetchLike, urlOf } from '../core/http.js'
+import {
+	MOCK_COMPANIES,
+	mockBars,
+	mockCandles,
+	mockCompany,
+	mockCryptoQuote,
+	mockDividends,
+	mockFilings,
+	mockFinancials,
+	mockInsiders,
+	mockMacroCategories,
+	mockMacroSearch,
+	mockMacroSeries,
+	mockQuote,
+} from './mock.js'
+
+// A local stand-in for the Yahoo, SEC EDGAR, FRED and Binance endpoints the providers
+// call, answering with the mock provider's data in each API's own shape. Requests reach
+// it through mockServerFetch(), which maps https://<host>/<path> to <server>/<host>/<path>,
+// so the real provider code (parsing, validation, error mapping) runs unchanged.
+// Covered: Yahoo quotes and charts (quote, history, dividends), SEC EDGAR (search,
+// financials, filing, insiders), FRED (macro) and Binance (crypto quote, history).
+// What it leaves out is listed in MOCK_SERVER_GAPS.
+
+/** Endpoints and sources the server doesn't imitate; requests for them fail */
+export const MOCK_SERVER_GAPS = [
+	'Yahoo options',
+	'Yahoo earnings (quoteSummary)',
+	'Yahoo search',
+	'Yahoo fundamentals',
+	'CoinGecko',
+	'World Bank',
+	'Finnhub',
+	'Alpha Vantage',
+]
+
+export const MOCK_SERVER_HOSTS = [
+	'finance.yahoo.com',
+	'query1.finance.yahoo.com',
+	'query2.finance.yahoo.com',
+	'www.sec.gov',
+	'data.sec.gov',
+	'efts.sec.gov',
+	'api.stlouisfed.org',
+	'api.binance.com',
+]
+
+interface Reply {
+	status?: number
+	body: unknown
+	headers?: Record<string, string>
+}
+
+type Handler = (path: string, query: URLSearchParams) => Reply | undefined
+
+const notFound = (message: string): Reply => ({ status: 404, body: { error: message } })
+// 501 marks an endpoint the server doesn't imitate; mockServerFetch() turns it into an error
+const notImitated = (what: string): Reply => ({
+	status: 501,
+	body: { error: `Not supported by the mock server: ${what}` },
+})
+
+// --- Yahoo ---
+
+function yahooQuote(symbol: string) {
+	const q = mockQuote(symbol)
+	const { name } = mockCompany(symbol)
+	return {
+		language: 'en-US',
+		region: 'US',
+		quoteType: 'EQUITY',
+		typeDisp: 'Equity',
+		quoteSourceName: 'Delayed Quote',
+		triggerable: false,
+		customPriceAlertConfidence: 'LOW',
+		currency: 'USD',
+		marketState: 'CLOSED',
+		tradeable: false,
+		cryptoTradeable: false,
+		exchange: 'NMS',
+		shortName: name,
+		longName: name,
+		messageBoardId: `finmb_${symbol}`,
+		exchangeTimezoneName: 'America/New_York',
+		exchangeTimezoneShortName: 'EST',
+		gmtOffSetMilliseconds: -18_000_000,
+		market: 'us_market',
+		esgPopulated: false,
+		hasPrePostMarketData: false,
+		firstTradeDateMilliseconds: 345_479_400_000,
+		priceHint: 2,
+		sourceInterval: 15,
+		exchangeDataDelayedBy: 0,
+		fullExchangeName: 'NasdaqGS',
+		symbol: q.symbol,
+		regularMarketPrice: q.price,
+		regularMarketChange: q.change,
+		regularMarketChangePercent: q.changePercent,
+		regularMarketTime: Math.floor(Date.parse(`${mockBars(symbol, 1)[0].date}T21:00:00Z`) / 1000),
+		regularMarketOpen: q.open,
+		regularMarketDayHigh: q.dayHigh,
+		regularMarketDayLow: q.dayLow,
+		regularMarketVolume: q.volume,
+		regularMarketPreviousClose: q.previousClose,
+		fiftyTwoWeekHigh: q.high52w,
+		fiftyTwoWeekLow: q.low52w,
+		marketCap: q.marketCap,
+	}
+}
+
+function yahooChart(symbol: string, query: URLSearchParams) {
+	const period1 = Number(query.get('period1') ?? 0)
+	const period2 = Number(query.get('period2') ?? Math.floor(Date.now() / 1000))
+	const days = Math.max(1, Math.min(365 * 5, Math.ceil((period2 - period1) / 86_400)))
+	const bars = mockBars(symbol, days)
+	const at = (date: string) => Date.parse(`${date}T14:30:00Z`) / 1000
+	const timestamp = bars.map((b) => at(b.date))
+	const last = timestamp[timestamp.length - 1]
+	// Dividends ride along with the chart when asked for (`events=div`), keyed by timestamp
+	const dividends = (query.get('events') ?? '').includes('div')
+		? Object.fromEntries(
+				mockDividends(symbol).map((d) => [at(d.date), { amount: d.amount, date: at(d.date) }]),
+			)
+		: undefined
+	const session = (start: number, end: number) => ({
+		timezone: 'EST',
+		start: last + start,
+		end: last + end,
+		gmtoffset: -18_000,
+	})
+	return {
+		chart: {
+			result: [
+				{
+					meta: {
+						currency: 'USD',
+						symbol: symbol.toUpperCase(),
+						exchangeName: 'NMS',
+						instrumentType: 'EQUITY',
+						firstTradeDate: 345_479_400,
+						regularMarketTime: last,
+						gmtoffset: -18_000,
+						timezone: 'EST',
+						exchangeTimezoneName: 'America/New_York',
+						regularMarketPrice: bars[bars.length - 1].close,
+						chartPreviousClose: bars[0].open,
+						currentTradingPeriod: {
+							pre: session(-19_800, 0),
+							regular: session(0, 23_400),
+							post: session(23_400, 37_800),
+						},
+						priceHint: 2,
+						dataGranularity: '1d',
+						range: '',
+						validRanges: ['1d', '5d', '1mo', '3mo', '6mo', '1y', '2y', '5y', '10y', 'ytd', 'max'],
+					},
+					timestamp,
+					indicators: {
+						quote: [
+							{
+								open: bars.map((b) => b.open),
+								high: bars.map((b) => b.high),
+								low: bars.map((b) => b.low),
+								close: bars.map((b) => b.close),
+								volume: bars.map((b) => b.volume),
+							},
+						],
+						adjclose: [{ adjclose: bars.map((b) => b.adjClose) }],
+					},
+					...(dividends && { events: { dividends } }),
+				},
+			],
+			error: null,
+		},
+	}
+}
+
+const yahoo: Handler = (path, query): Reply | undefined => {
+	// The crumb flow: a page that sets a session cookie, then the crumb itself
+	if (path.startsWith('/quote/')) {
+		return {
+			body: '<html><body>mock</body></html>',
+			headers: {
+				'content-type': 'text/html',
+				'set-cookie': 'A3=mock; Domain=.yahoo.com; Path=/; Max-Age=31536000; Secure; HttpOnly',
+			},
+		}
+	}
+	if (path === '/v1/test/getcrumb') {
+		return { body: 'mockcrumb', headers: { 'content-type': 'text/plain' } }
+	}
+	if (path === '/v7/finance/quote') {
+		const symbols = (query.get('symbols') ?? '').split(',').filter(Boolean)
+		return { body: { quoteResponse: { result: symbols.map(yahooQuote), error: null } } }
+	}
+	const chart = /^\/v8\/finance\/chart\/([^/]+)$/.exec(path)
+	if (chart) return { body: yahooChart(decodeURIComponent(chart[1]), query) }
+	return undefined
+}
+
+// --- SEC EDGAR ---
+
+function companyByCik(cikPath: string) {
+	const cik = Number(/CIK(\d+)/.exec(cikPath)?.[1])
+	return MOCK_COMPANIES.find((c) => c.cik === cik)
+}
+
+// XBRL tags the provider reads, with the statement field and unit behind each
+const XBRL_TAGS = [
+	['Revenues', 'revenue', 'USD'],
+	['GrossProfit', 'grossProfit', 'USD'],
+	['OperatingIncomeLoss', 'operatingIncome', 'USD'],
+	['NetIncomeLoss', 'netIncome', 'USD'],
+	['EarningsPerShareBasic', 'eps', 'USD/shares'],
+	['EarningsPerShareDiluted', 'epsDiluted', 'USD/shares'],
+	['Assets', 'totalAssets', 'USD'],
+	['Liabilities', 'totalLiabilities', 'USD'],
+	['StockholdersEquity', 'stockholdersEquity', 'USD'],
+	['NetCashProvidedByOperatingActivities', 'operatingCashFlow', 'USD'],
+	['LongTermDebt', 'longTermDebt', 'USD'],
+	['CommonStockSharesOutstanding', 'sharesOutstanding', 'shares'],
+] as const
+
+function companyFacts(symbol: string) {
+	const statements = [
+		...mockFinancials(symbol, 'annual', 5).map((s) => ({ ...s, form: '10-K' })),
+		...mockFinancials(symbol, 'quarterly', 8).map((s) => ({ ...s, form: '10-Q' })),
+	]
+	const usGaap: Record<string, { units: Record<string, unknown[]> }> = {}
+	for (const [tag, field, unit] of XBRL_TAGS) {
+		usGaap[tag] = {
+			units: {
+				[unit]: statements.map((s) => {
+					const [fp, fy] = s.period.split('-')
+					return { end: s.date, val: s[field], form: s.form, fp, fy: Number(fy), filed: s.date }
+				}),
+			},
+		}
+	}
+	return {
+		cik: mockCompany(symbol).cik,
+		entityName: mockCompany(symbol).name,
+		facts: { 'us-gaap': usGaap },
+	}
+}
+
+function submissions(symbol: string) {
+	const filings = mockFilings(symbol, { limit: 1000 })
+	return {
+		cik: String(mockCompany(symbol).cik),
+		name: mockCompany(symbol).name,
+		tickers: [symbol],
+		filings: {
+			recent: {
+				accessionNumber: filings.map((f) => f.accessionNumber),
+				filingDate: filings.map((f) => f.filingDate),
+				reportDate: filings.map((f) => f.reportDate ?? ''),
+				form: filings.map((f) => f.form),
+				primaryDocument: filings.map((f) => f.primaryDocument ?? ''),
+				primaryDocDescription: filings.map((f) => f.description ?? ''),
+			},
+		},
+	}
+}
+
+// Full-text search: Form 4 hits for a quoted, zero-padded CIK (what the insiders lookup
+// sends); nothing for other queries
+function edgarSearch(query: URLSearchParams) {
+	const company = companyByCik(`CIK${/"(\d{10})"/.exec(query.get('q') ?? '')?.[1]}`)
+	const hits = company
+		? mockInsiders(company.symbol).map((t) => ({
+				_id: `${t.accessionNumber}:form4.xml`,
+				_source: {
+					display_names: [
+						`${t.name} (CIK 0001${t.accessionNumber?.slice(-6)})`,
+						`${company.name} (CIK ${String(company.cik).padStart(10, '0')})`,
+					],
+					file_date: t.transactionDate,
+					form: '4',
+					adsh: t.accessionNumber,
+					ciks: [String(company.cik).padStart(10, '0')],
+				},
+			}))
+		: []
+	return { hits: { hits } }
+}
+
+const sec: Handler = (path, query): Reply | undefined => {
+	if (path === '/files/company_tickers.json') {
+		return {
+			body: Object.fromEntries(
+				MOCK_COMPANIES.map((c, i) => [i, { cik_str: c.cik, ticker: c.symbol, title: c.name }]),
+			),
+		}
+	}
+	if (path === '/LATEST/search-index') return { body: edgarSearch(query) }
+	const facts = /^\/api\/xbrl\/companyfacts\/(CIK\d+)\.json$/.exec(path)
+	const subs = /^\/submissions\/(CIK\d+)\.json$/.exec(path)
+	const company = companyByCik(facts?.[1] ?? subs?.[1] ?? '')
+	if ((facts || subs) && !company) return notFound('No company with that CIK')
+	if (facts && company) return { body: companyFacts(company.symbol) }
+	if (subs && company) return { body: submissions(company.symbol) }
+	return undefined
+}
+
+// --- FRED ---
+
+const fred: Handler = (path, query): Reply | undefined => {
+	if (!query.get('api_key')) {
+		return {
+			status: 400,
+			body: { error_code: 400, error_message: 'Bad Request. Variable api_key is not set.' },
+		}
+	}
+	const seriesId = query.get('series_id') ?? ''
+	if (path === '/fred/series/observations') {
+		const limit = query.get('limit')
+		const series = mockMacroSeries(seriesId, {
+			start: query.get('observation_start') ?? undefined,
+			end: query.get('observation_end') ?? undefined,
+			limit: limit ? Number(limit) : undefined,
+		})
+		const observations = series.data.map((p) => ({ date: p.date, value: String(p.value) }))
+		if (query.get('sort_order') === 'desc') observations.reverse()
+		return { body: { observations } }
+	}
+	if (path === '/fred/series') {
+		const s = mockMacroSeries(seriesId)
+		return {
+			body: {
+				seriess: [
+					{
+						id: s.id,
+						title: s.title,
+						units: s.units,
+						frequency: s.frequency,
+						seasonal_adjustment: s.seasonalAdjustment,
+					},
+				],
+			},
+		}
+	}
+	if (path === '/fred/series/search') {
+		const limit = Number(query.get('limit') ?? 10)
+		return { body: { seriess: mockMacroSearch(query.get('search_text') ?? '', limit) } }
+	}
+	if (path === '/fred/category/children') {
+		const categories = mockMacroCategories(Number(query.get('category_id') ?? 0))
+		return {
+			body: {
+				categories: categories.map((c) => ({ id: c.id, name: c.name, parent_id: c.parentId })),
+			},
+		}
+	}
+	return undefined
+}
+
+// --- Binance ---
+
+const binance: Handler = (path, query): Reply | undefined => {
+	const pair = query.get('symbol') ?? ''
+	const symbol = pair.replace(/USDT$/, '')
+	if ((path.startsWith('/api/v3/ticker') || path === '/api/v3/klines') && !pair.endsWith('USDT')) {
+		return { status: 400, body: { code: -1121, msg: 'Invalid symbol.' } }
+	}
+	if (path === '/api/v3/ticker/24hr') {
+		const q = mockCryptoQuote(symbol)
+		const volume = (q.volume24h ?? 0) / q.price
+		return {
+			body: {
+				symbol: pair,
+				priceChange: String(q.change24h),
+				priceChangePercent: String(q.changePercent24h),
+				lastPrice: String(q.price),
+				highPrice: String(q.high24h),
+				lowPrice: String(q.low24h),
+				volume: String(volume),
+				quoteVolume: String(q.volume24h),
+			},
+		}
+	}
+	if (path === '/api/v3/ticker/price') {
+		return { body: { symbol: pair, price: String(mockCryptoQuote(symbol).price) } }
+	}
+	if (path === '/api/v3/klines') {
+		const interval = query.get('interval') ?? '1d'
+		const candles = mockCandles(symbol, Number(query.get('limit') ?? 500), interval)
+		return {
+			body: candles.map((c) => {
+				const openTime = Date.parse(c.time)
+				return [
+					openTime,
+					String(c.open),
+					String(c.high),
+					String(c.low),
+					String(c.close),
+					String(c.volume),
+					openTime + 86_399_999,
+				]
+			}),
+		}
+	}
+	return undefined
+}
+
+const HANDLERS: Record<string, Handler> = {
+	'finance.yahoo.com': yahoo,
+	'query1.finance.yahoo.com': yahoo,
+	'query2.finance.yahoo.com': yahoo,
+	'www.sec.gov': sec,
+	'data.sec.gov': sec,
+	'efts.sec.gov': sec,
+	'api.stlouisfed.org': fred,
+	'api.binance.com': binance,
+}
+
+function handle(req: IncomingMessage, res: ServerResponse): void {
+	const url = new URL(req.url ?? '/', 'http://mock')
+	const [, host, ...rest] = url.pathname.split('/')
+	const path = `/${rest.join('/')}`
+	const reply = HANDLERS[host]?.(path, url.searchParams) ?? notImitated(`${host}${path}`)
+
+	const text = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body)
+	res.writeHead(reply.status ?? 200, { 'content-type': 'application/json', ...reply.headers })
+	res.end(text)
+}
+
+export interface MockServer {
+	/** Base URL, e.g. http://127.0.0.1:8787 */
+	url: string
+	/** A fetch that sends requests for the imitated hosts to this server */
+	fetch: FetchLike
+	close(): Promise<void>
+}
+
+/** Start the stand-in server; port 0 (the default) picks a free one. */
+export function startMockServer(
+	options: { port?: number; host?: string } = {},
+): Promise<MockServer> {
+	const server = createServer(handle)
+	return new Promise((resolve, reject) => {
+		server.once('error', reject)
+		server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+			const { address, port } = server.address() as AddressInfo
+			const url = `http://${address}:${port}`
+			resolve({
+				url,
+				fetch: mockServerFetch(url),
+				close: () =>
+					new Promise<void>((done, fail) => {
+						server.closeAllConnections()
+						server.close((err) => (err ? fail(err) : done()))
+					}),
+			})
+		})
+	})
+}
+
+/**
+ * A fetch that sends requests for the imitated hosts to the server at `baseUrl`. Anything
+ * else fails as a network error, so sources the server doesn't cover fall back instead
+ * of reaching the internet. An endpoint the server doesn't imitate fails with an
+ * UnsupportedActionError naming it, rather than a reply the provider would misread.
+ */
+export function mockServerFetch(baseUrl: string): FetchLike {
+	const base = baseUrl.replace(/\/+$/, '')
+	return (input, init) => {
+		const target = new URL(urlOf(input))
+		if (!MOCK_SERVER_HOSTS.includes(target.host)) {
+			return Promise.reject(new NetworkError(`${target.host} is not imitated by the mock server`))
+		}
+		const url = `${base}/${target.host}${target.pathname}${target.search}`
+		return fetch(url, input instanceof Request ? new Request(url, input) : init).then(
+			async (response) => {
+				if (response.status !== 501) return response
+				const { error } = (await response.json()) as { error: string }
+				throw new UnsupportedActionError(error)
+			},
+		)
+	}
+}
@@ -0,0 +1,638 @@
+import type { z } from 'zod'
+import { loadConfig } from '../core/config.js'
+import { CONTRACTS } from '../core/contracts.js'
+import { UnsupportedActionError } from '../core/errors.js'
+import type {
+	CryptoCandle,
+	CryptoMarketOverview,
+	CryptoPrice,
+	CryptoQuote,
+	DividendEvent,
+	EarningsData,
+	Filing,
+	FinancialStatement,
+	HistoricalQuote,
+	InsiderTransaction,
+	MacroCategory,
+	MacroSearchResult,
+	MacroSeries,
+	OptionContract,
+	QuoteResult,
+	SearchResult,
+} from '../types.js'
+import type { ActionCapabilities, DataCategory, Provider, ProviderResult } from './types.js'
+
+const SOURCE = 'mock'
+
+// Synthetic data is a pure function of the request: the same args always give the same
+// numbers, and dates count back from a fixed day rather than from today.
+export const MOCK_AS_OF = '2025-01-31'
+const AS_OF_MS = Date.parse(`${MOCK_AS_OF}T00:00:00Z`)
+const DAY_MS = 86_400_000
+
+/** Seeded PRNG (mulberry32 over an FNV-1a hash of the seed), uniform in [0, 1) */
+function random(seed: string): () => number {
+	let h = 0x811c9dc5
+	for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 0x01000193)
+	let a = h >>> 0
+	return () => {
+		a = (a + 0x6d2b79f5) | 0
+		let t = Math.imul(a ^ (a >>> 15), 1 | a)
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+}
+
+function round(value: number, digits = 2): number {
+	return Number(value.toFixed(digits))
+}
+
+function isoDate(ms: number): string {
+	return new Date(ms).toISOString().split('T')[0]
+}
+
+// --- Companies ---
+
+/** Companies the mock knows by name; any other symbol still gets synthetic data. */
+export const MOCK_COMPANIES = [
+	{ symbol: 'AAPL', name: 'Apple Inc.', cik: 320193 },
+	{ symbol: 'MSFT', name: 'Microsoft Corporation', cik: 789019 },
+	{ symbol: 'GOOGL', name: 'Alphabet Inc.', cik: 1652044 },
+	{ symbol: 'AMZN', name: 'Amazon.com, Inc.', cik: 1018724 },
+	{ symbol: 'NVDA', name: 'NVIDIA Corporation', cik: 1045810 },
+	{ symbol: 'TSLA', name: 'Tesla, Inc.', cik: 1318605 },
+]
+
+export function mockCompany(symbol: string): { symbol: string; name: string; cik: number } {
+	const upper = symbol.toUpperCase()
+	const known = MOCK_COMPANIES.find((c) => c.symbol === upper)
+	if (known) return known
+	return {
+		symbol: upper,
+		name: `${upper} Corp.`,
+		cik: 1_000_000 + Math.floor(random(upper)() * 900_000),
+	}
+}
+
+// --- Stocks ---
+
+/** Daily bars ending on MOCK_AS_OF, oldest first. A longer window extends the same series back. */
+export function mockBars(symbol: string, days = 30): HistoricalQuote[] {
+	const next = random(`bars:${symbol.toUpperCase()}`)
+	let close = 20 + next() * 480
+	const bars: HistoricalQuote[] = []
+	for (let i = 0; i < days; i++) {
+		const open = close * (1 + (next() - 0.5) * 0.02)
+		const high = Math.max(open, close) * (1 + next() * 0.01)
+		const low = Math.min(open, close) * (1 - next() * 0.01)
+		bars.push({
+			date: isoDate(AS_OF_MS - i * DAY_MS),
+			open: round(open),
+			high: round(high),
+			low: round(low),
+			close: round(close),
+			adjClose: round(close),
+			volume: Math.floor(1_000_000 + next() * 49_000_000),
+		})
+		// The previous day's close, walking backwards
+		close = close / (1 + (next() - 0.5) * 0.04)
+	}
+	return bars.reverse()
+}
+
+export function mockQuote(symbol: string): QuoteResult {
+	const year = mockBars(symbol, 252)
+	const [prev, last] = year.slice(-2)
+	const shares = 1e8 + random(`shares:${symbol.toUpperCase()}`)() * 1e10
+	const change = last.close - prev.close
+	return {
+		symbol: symbol.toUpperCase(),
+		price: last.close,
+		change: round(change),
+		changePercent: round((change / prev.close) * 100),
+		volume: last.volume,
+		marketCap: Math.round(last.close * shares),
+		high52w: Math.max(...year.map((b) => b.high)),
+		low52w: Math.min(...year.map((b) => b.low)),
+		open: last.open,
+		previousClose: prev.close,
+		dayHigh: last.high,
+		dayLow: last.low,
+		source: SOURCE,
+	}
+}
+
+export function mockOptions(symbol: string): OptionContract[] {
+	const price = mockQuote(symbol).price
+	const step = price < 50 ? 1 : price < 200 ? 5 : 10
+	const atm = Math.round(price / step) * step
+	const next = random(`options:${symbol.toUpperCase()}`)
+	const contracts: OptionContract[] = []
+	for (const daysOut of [14, 42, 70]) {
+		const expiration = isoDate(AS_OF_MS + daysOut * DAY_MS)
+		const timeValue = price * 0.02 * Math.sqrt(daysOut / 30)
+		for (let k = -5; k <= 5; k++) {
+			const strike = atm + k * step
+			for (const type of ['call', 'put'] as const) {
+				const intrinsic = Math.max(0, type === 'call' ? price - strike : strike - price)
+				const lastPrice = round(intrinsic + timeValue * Math.exp(-Math.abs(k) / 4))
+				contracts.push({
+					strike,
+					expiration,
+					type,
+					lastPrice,
+					bid: round(lastPrice * 0.98),
+					ask: round(lastPrice * 1.02),
+					volume: Math.floor(next() * 5000),
+					openInterest: Math.floor(next() * 20000),
+					impliedVolatility: round(0.2 + next() * 0.3, 4),
+				})
+			}
+		}
+	}
+	return contracts
+}
+
+/** Fiscal periods, newest first: years ending Dec 31, or calendar quarters */
+function fiscalPeriods(period: 'annual' | 'quarterly', count: number) {
+	const asOf = new Date(AS_OF_MS)
+	return Array.from({ length: count }, (_, i) => {
+		if (period === 'annual') {
+			const fy = asOf.getUTCFullYear() - 1 - i
+			return { fp: 'FY', fy, end: `${fy}-12-31` }
+		}
+		// Quarters back from the last one that closed before the as-of date
+		const index = asOf.getUTCFullYear() * 4 + Math.floor(asOf.getUTCMonth() / 3) - 1 - i
+		const fy = Math.floor(index / 4)
+		const q = (index % 4) + 1
+		return { fp: `Q${q}`, fy, end: isoDate(Date.UTC(fy, q * 3, 0)) }
+	})
+}
+
+export function mockFinancials(
+	symbol: string,
+	period: 'annual' | 'quarterly' = 'annual',
+	limit = 10,
+): FinancialStatement[] {
+	const scale = (1 + random(`scale:${symbol.toUpperCase()}`)() * 99) * 1e9
+	return fiscalPeriods(period, limit).map(({ fp, fy, end }) => {
+		const next = random(`financials:${symbol.toUpperCase()}:${fp}-${fy}`)
+		const revenue = Math.round((period === 'annual' ? scale : scale / 4) * (0.8 + next() * 0.4))
+		const netIncome = Math.round(revenue * (0.05 + next() * 0.2))
+		const shares = Math.round(scale / 20)
+		const totalAssets = Math.round(scale * (1.5 + next()))
+		const totalLiabilities = Math.round(totalAssets * (0.4 + next() * 0.3))
+		return {
+			period: `${fp}-${fy}`,
+			date: end,
+			revenue,
+			grossProfit: Math.round(revenue * (0.35 + next() * 0.2)),
+			operatingIncome: Math.round(netIncome * 1.25),
+			netIncome,
+			eps: round(netIncome / shares),
+			epsDiluted: round(netIncome / (shares * 1.01)),
+			totalAssets,
+			totalLiabilities,
+			stockholdersEquity: totalAssets - totalLiabilities,
+			operatingCashFlow: Math.round(netIncome * (1.1 + next() * 0.3)),
+			longTermDebt: Math.round(totalLiabilities * 0.4),
+			sharesOutstanding: shares,
+			source: SOURCE,
+		}
+	})
+}
+
+/** Recent filings, newest first: a 10-K or 10-Q per quarter, an 8-K with each, and Form 4s */
+export function mockFilings(
+	symbol: string,
+	options: { type?: string; latest?: boolean; limit?: number } = {},
+): Filing[] {
+	const { cik } = mockCompany(symbol)
+	let seq = 0
+	const accession = (filed: string) =>
+		`${String(cik).padStart(10, '0')}-${filed.slice(2, 4)}-${String(++seq).padStart(6, '0')}`
+
+	const filings: Filing[] = []
+	for (const { fp, fy, end } of fiscalPeriods('quarterly', 8)) {
+		const form = fp === 'Q4' ? '10-K' : '10-Q'
+		const endMs = Date.parse(end)
+		const filed = isoDate(endMs + (form === '10-K' ? 60 : 35) * DAY_MS)
+		if (Date.parse(filed) > AS_OF_MS) continue
+		filings.push(
+			{
+				accessionNumber: accession(filed),
+				form,
+				filingDate: filed,
+				reportDate: end,
+				primaryDocument: `${symbol.toLowerCase()}-${end.replaceAll('-', '')}.htm`,
+				description: `${form} for ${fp === 'Q4' ? 'FY' : fp} ${fy}`,
+				source: SOURCE,
+			},
+			{
+				accessionNumber: accession(filed),
+				form: '8-K',
+				filingDate: isoDate(Date.parse(filed) - 7 * DAY_MS),
+				primaryDocument: `${symbol.toLowerCase()}-8k.htm`,
+				description: 'Results of Operations and Financial Condition',
+				source: SOURCE,
+			},
+		)
+	}
+	for (const insider of mockInsiders(symbol)) {
+		filings.push({
+			accessionNumber: insider.accessionNumber ?? accession(insider.transactionDate),
+			form: '4',
+			filingDate: insider.transactionDate,
+			primaryDocument: 'xslF345X05/form4.xml',
+			description: `Statement of changes in beneficial ownership — ${insider.name}`,
+			source: SOURCE,
+		})
+	}
+
+	filings.sort((a, b) => b.filingDate.localeCompare(a.filingDate))
+	const matching = options.type ? filings.filter((f) => f.form === options.type) : filings
+	return matching.slice(0, options.latest ? 1 : (options.limit ?? 20))
+}
+
+const INSIDERS = [
+	['Jane Whitfield', 'Chief Executive Officer'],
+	['Marcus Lee', 'Chief Financial Officer'],
+	['Priya Raman', 'Director'],
+	['Tomás Ortega', 'General Counsel'],
+	['Helen Brooks', 'Director'],
+] as const
+
+export function mockInsiders(symbol: string, limit = 20): InsiderTransaction[] {
+	const { cik } = mockCompany(symbol)
+	const bars = mockBars(symbol, 180)
+	const next = random(`insiders:${symbol.toUpperCase()}`)
+	const transactions = Array.from({ length: 8 }, (_, i): InsiderTransaction => {
+		const [name, title] = INSIDERS[i % INSIDERS.length]
+		const bar = bars[bars.length - 1 - i * 20]
+		const sale = next() < 0.7
+		const shares = Math.floor(1000 + next() * 50_000)
+		return {
+			name,
+			title,
+			transactionDate: bar.date,
+			transactionType: sale ? 'S - Sale' : 'P - Purchase',
+			shares,
+			pricePerShare: bar.close,
+			totalValue: Math.round(shares * bar.close),
+			sharesOwned: Math.floor(100_000 + next() * 2_000_000),
+			accessionNumber: `${String(cik).padStart(10, '0')}-${bar.date.slice(2, 4)}-9${String(i).padStart(5, '0')}`,
+			source: SOURCE,
+		}
+	})
+	return transactions.slice(0, limit)
+}
+
+export function mockEarnings(symbol: string): EarningsData[] {
+	const quarters = mockFinancials(symbol, 'quarterly', 4)
+	const next = random(`earnings:${symbol.toUpperCase()}`)
+	const reported = quarters.map((q) => ({
+		symbol: symbol.toUpperCase(),
+		earningsDate: isoDate(Date.parse(q.date) + 28 * DAY_MS),
+		epsEstimate: round((q.eps ?? 0) * (0.9 + next() * 0.15)),
+		epsActual: q.eps,
+		revenueEstimate: Math.round((q.revenue ?? 0) * (0.95 + next() * 0.08)),
+		revenueActual: q.revenue,
+		source: SOURCE,
+	}))
+	const upcoming = {
+		symbol: symbol.toUpperCase(),
+		earningsDate: isoDate(Date.parse(reported[0].earningsDate) + 91 * DAY_MS),
+		epsEstimate: reported[0].epsEstimate,
+		revenueEstimate: reported[0].revenueEstimate,
+		source: SOURCE,
+	}
+	return [upcoming, ...reported]
+}
+
+export function mockDividends(symbol: string): DividendEvent[] {
+	const amount = round(0.1 + random(`dividends:${symbol.toUpperCase()}`)() * 1.4)
+	return fiscalPeriods('quarterly', 8).map(({ end }) => ({
+		date: isoDate(Date.parse(end) - 45 * DAY_MS),
+		amount,
+		source: SOURCE,
+	}))
+}
+
+export function mockSearch(query: string, limit = 10): SearchResult[] {
+	const q = query.toUpperCase()
+	const matches = MOCK_COMPANIES.filter(
+		(c) => c.symbol.includes(q) || c.name.toUpperCase().includes(q),
+	)
+	// Always answer with something, so demos with unknown names still show a result
+	const companies =
+		matches.length > 0 ? matches : [mockCompany(q.replace(/[^A-Z]/g, '').slice(0, 4) || 'MOCK')]
+	return companies.slice(0, limit).map(({ symbol, name }) => ({
+		symbol,
+		name,
+		exchange: 'NASDAQ',
+		type: 'equity',
+		source: SOURCE,
+	}))
+}
+
+// --- Macro ---
+
+const SERIES: Record<string, { title: string; units: string; base: number }> = {
+	GDP: { title: 'Gross Domestic Product', units: 'Billions of Dollars', base: 27_000 },
+	UNRATE: { title: 'Unemployment Rate', units: 'Percent', base: 4 },
+	CPIAUCSL: {
+		title: 'Consumer Price Index for All Urban Consumers: All Items in U.S. City Average',
+		units: 'Index 1982-1984=100',
+		base: 310,
+	},
+	FEDFUNDS: { title: 'Federal Funds Effective Rate', units: 'Percent', base: 4.5 },
+	DGS10: {
+		title: 'Market Yield on U.S. Treasury Securities at 10-Year',
+		units: 'Percent',
+		base: 4.2,
+	},
+}
+
+/** Monthly observations ending in the month of MOCK_AS_OF, oldest first */
+export function mockMacroSeries(
+	seriesId: string,
+	options: { start?: string; end?: string; limit?: number } = {},
+): MacroSeries {
+	const id = seriesId.toUpperCase()
+	const next = random(`macro:${id}`)
+	const known = SERIES[id]
+	const base = known?.base ?? 10 + next() * 190
+	const asOf = new Date(AS_OF_MS)
+
+	let value = base
+	let data = Array.from({ length: 120 }, (_, i) => {
+		const point = {
+			date: isoDate(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - i, 1)),
+			value: round(value, 3),
+		}
+		value = value / (1 + (next() - 0.45) * 0.01)
+		return point
+	}).reverse()
+
+	if (options.start) data = data.filter((p) => p.date >= (options.start as string))
+	if (options.end) data = data.filter((p) => p.date <= (options.end as string))
+	if (options.limit != null) data = data.slice(-options.limit)
+
+	return {
+		id,
+		title: known?.title ?? `Mock series ${id}`,
+		units: known?.units ?? 'Index',
+		frequency: 'Monthly',
+		seasonalAdjustment: 'Seasonally Adjusted',
+		data,
+		source: SOURCE,
+	}
+}
+
+export function mockMacroSearch(query: string, limit = 10): MacroSearchResult[] {
+	const q = query.toLowerCase()
+	const matches = Object.entries(SERIES).filter(
+		([id, s]) => id.toLowerCase().includes(q) || s.title.toLowerCase().includes(q),
+	)
+	const entries = matches.length > 0 ? matches : Object.entries(SERIES)
+	return entries.slice(0, limit).map(([id, s], i) => ({
+		id,
+		title: s.title,
+		units: s.units,
+		frequency: 'Monthly',
+		seasonal_adjustment: 'Seasonally Adjusted',
+		popularity: 90 - i * 5,
+	}))
+}
+
+const CATEGORIES: MacroCategory[] = [
+	{ id: 32991, name: 'Money, Banking, & Finance', parentId: 0 },
+	{ id: 10, name: 'Population, Employment, & Labor Markets', parentId: 0 },
+	{ id: 32992, name: 'National Accounts', parentId: 0 },
+	{ id: 32455, name: 'Prices', parentId: 0 },
+	{ id: 22, name: 'Interest Rates', parentId: 32991 },
+	{ id: 12, name: 'Current Population Survey (Household Survey)', parentId: 10 },
+	{ id: 106, name: 'National Income & Product Accounts', parentId: 32992 },
+	{ id: 9, name: 'Consumer Price Indexes (CPI and PCE)', parentId: 32455 },
+]
+
+export function mockMacroCategories(categoryId = 0): MacroCategory[] {
+	return CATEGORIES.filter((c) => c.parentId === categoryId)
+}
+
+// --- Crypto ---
+
+const COINS = [
+	{ symbol: 'BTC', name: 'Bitcoin', base: 60_000, supply: 19_800_000 },
+	{ symbol: 'ETH', name: 'Ethereum', base: 3_000, supply: 120_000_000 },
+	{ symbol: 'USDT', name: 'Tether', base: 1, supply: 140_000_000_000 },
+	{ symbol: 'BNB', name: 'BNB', base: 600, supply: 145_000_000 },
+	{ symbol: 'SOL', name: 'Solana', base: 150, supply: 480_000_000 },
+	{ symbol: 'XRP', name: 'XRP', base: 0.6, supply: 57_000_000_000 },
+	{ symbol: 'DOGE', name: 'Dogecoin', base: 0.15, supply: 147_000_000_000 },
+	{ symbol: 'ADA', name: 'Cardano', base: 0.45, supply: 35_000_000_000 },
+	{ symbol: 'AVAX', name: 'Avalanche', base: 30, supply: 410_000_000 },
+	{ symbol: 'LINK', name: 'Chainlink', base: 15, supply: 630_000_000 },
+]
+
+function mockCoin(symbol: string) {
+	const upper = symbol.toUpperCase()
+	return (
+		COINS.find((c) => c.symbol === upper) ?? {
+			symbol: upper,
+			name: upper,
+			base: 0.01 + random(`coin:${upper}`)() * 50,
+			supply: 1_000_000_000,
+		}
+	)
+}
+
+const INTERVAL_RE = /^(\d+)([mhdw])$/
+const INTERVAL_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: DAY_MS, w: 7 * DAY_MS }
+
+/** Candles at `interval` (e.g. 1h, 1d) ending at MOCK_AS_OF, oldest first */
+export function mockCandles(symbol: string, count = 30, interval = '1d'): CryptoCandle[] {
+	const match = INTERVAL_RE.exec(interval)
+	const stepMs = match ? Number(match[1]) * INTERVAL_MS[match[2]] : DAY_MS
+	const coin = mockCoin(symbol)
+	const next = random(`candles:${coin.symbol}:${interval}`)
+	const digits = coin.base < 1 ? 6 : 2
+	let close = coin.base
+	const candles: CryptoCandle[] = []
+	for (let i = 0; i < count; i++) {
+		const open = close * (1 + (next() - 0.5) * 0.03)
+		candles.push({
+			time: new Date(AS_OF_MS - i * stepMs).toISOString(),
+			open: round(open, digits),
+			high: round(Math.max(open, close) * (1 + next() * 0.015), digits),
+			low: round(Math.min(open, close) * (1 - next() * 0.015), digits),
+			close: round(close, digits),
+			volume: round(1000 + next() * 100_000, 3),
+		})
+		close = close / (1 + (next() - 0.5) * 0.06)
+	}
+	return candles.reverse()
+}
+
+export function mockCryptoQuote(symbol: string): CryptoQuote {
+	const coin = mockCoin(symbol)
+	const day = mockCandles(coin.symbol, 2)
+	const [prev, last] = day
+	const history = mockCandles(coin.symbol, 365)
+	const change = last.close - prev.close
+	return {
+		symbol: coin.symbol,
+		name: coin.name,
+		price: last.close,
+		change24h: round(change, 6),
+		changePercent24h: round((change / prev.close) * 100),
+		volume24h: Math.round(last.volume * last.close),
+		marketCap: Math.round(last.close * coin.supply),
+		marketCapRank: COINS.indexOf(coin) + 1 || undefined,
+		high24h: last.high,
+		low24h: last.low,
+		circulatingSupply: coin.supply,
+		ath: Math.max(...history.map((c) => c.high)),
+		source: SOURCE,
+	}
+}
+
+export function mockCryptoTop(limit = 10): CryptoQuote[] {
+	return COINS.slice(0, limit)
+		.map((c) => mockCryptoQuote(c.symbol))
+		.sort((a, b) => (b.marketCap ?? 0) - (a.marketCap ?? 0))
+		.map((q, i) => ({ ...q, marketCapRank: i + 1 }))
+}
+
+export function mockCryptoGlobal(): CryptoMarketOverview {
+	const top = mockCryptoTop(COINS.length)
+	const total = top.reduce((sum, q) => sum + (q.marketCap ?? 0), 0) / 0.85
+	return {
+		active_cryptocurrencies: 15_000,
+		markets: 1_200,
+		total_market_cap: { usd: Math.round(total) },
+		total_volume: { usd: Math.round(top.reduce((sum, q) => sum + (q.volume24h ?? 0), 0) / 0.8) },
+		market_cap_percentage: Object.fromEntries(
+			top
+				.slice(0, 5)
+				.map((q) => [q.symbol.toLowerCase(), round(((q.marketCap ?? 0) / total) * 100)]),
+		),
+		market_cap_change_percentage_24h_usd: top[0].changePercent24h ?? 0,
+	}
+}
+
+// --- Provider definition ---
+
+/** Mock data on: `OMD_MOCK=1` or `mock: true` in the config. */
+export function isMockEnabled(): boolean {
+	return process.env.OMD_MOCK === '1' || loadConfig().mock === true
+}
+
+// Every action with a contract, with the args the contract accepts
+const actions: Partial<Record<DataCategory, ActionCapabilities>> = {}
+for (const [key, contract] of Object.entries(CONTRACTS)) {
+	const [category, action] = key.split('/') as [DataCategory, string]
+	actions[category] = {
+		...actions[category],
+		[action]: Object.keys((contract.args as z.AnyZodObject).shape),
+	}
+}
+
+export const mock: Provider = {
+	name: SOURCE,
+	requiresKey: false,
+	capabilities: Object.keys(actions) as DataCategory[],
+	actions,
+	// Ahead of every real source: with the mock on, nothing goes to the network unless asked
+	priority: Object.fromEntries(Object.keys(actions).map((category) => [category, 0])),
+	rateLimits: { maxRequests: 1000, windowMs: 1000 },
+
+	isEnabled(): boolean {
+		return isMockEnabled()
+	},
+
+	async execute<T = unknown>(
+		category: DataCategory,
+		action: string,
+		args: Record<string, unknown>,
+	): Promise<ProviderResult<T>> {
+		const key = `${category}/${action}`
+		const symbol = args.symbol as string
+		const limit = args.limit as number | undefined
+		let data: unknown
+
+		switch (key) {
+			case 'search/search':
+				data = mockSearch(args.query as string, limit)
+				break
+			case 'quote/get':
+				data = mockQuote(symbol)
+				break
+			case 'quote/batch':
+				data = (args.symbols as string[]).map(mockQuote)
+				break
+			case 'financials/get':
+				data = mockFinancials(symbol, args.period as 'annual' | 'quarterly' | undefined, limit)
+				break
+			case 'filing/list':
+				data = mockFilings(symbol, {
+					type: args.type as string | undefined,
+					latest: args.latest as boolean | undefined,
+					limit,
+				})
+				break
+			case 'insiders/list':
+				data = mockInsiders(symbol, limit)
+				break
+			case 'macro/get':
+				data = mockMacroSeries(args.seriesId as string, {
+					start: args.start as string | undefined,
+					end: args.end as string | undefined,
+					limit,
+				})
+				break
+			case 'macro/search':
+				data = mockMacroSearch(args.query as string, limit)
+				break
+			case 'macro/categories':
+				data = mockMacroCategories(args.categoryId as number | undefined)
+				break
+			case 'crypto/quote':
+				data = mockCryptoQuote(symbol)
+				break
+			case 'crypto/price': {
+				const { price } = mockCryptoQuote(symbol)
+				data = { symbol: symbol.toUpperCase(), price } satisfies CryptoPrice
+				break
+			}
+			case 'crypto/history':
+				data = mockCandles(symbol, (args.days as number | undefined) ?? 30, args.interval as string)
+				break
+			case 'crypto/top':
+				data = mockCryptoTop(limit)
+				break
+			case 'crypto/trending':
+				data = mockCryptoTop(COINS.length).slice(3, 10)
+				break
+			case 'crypto/global':
+				data = mockCryptoGlobal()
+				break
+			case 'history/get':
+				data = mockBars(symbol, (args.days as number | undefined) ?? 30)
+				break
+			case 'options/get':
+				data = mockOptions(symbol)
+				break
+			case 'earnings/get':
+				data = mockEarnings(symbol)
+				break
+			case 'dividends/get':
+				data = mockDividends(symbol)
+				break
+			default:
+				throw new UnsupportedActionError(`Mock provider does not support ${key}`)
+		}
+
+		return { data: data as T, source: SOURCE, cached: false }
+	},
+}
@@ -0,0 +1,77 @@
+import { createRequire } from 'node:module'
+import { dirname, isAbsolute, join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { z } from 'zod'
+import { getConfigPath } from '../core/config.js'
+import { describeIssues } from '../core/contracts.js'
+import { OmdError } from '../core/errors.js'
+import { DATA_CATEGORIES, type DataCategory, type Provider } from './types.js'
+
+// Plugins are plain modules listed in `OmdConfig.plugins`. Each exports a Provider (or an
+// array of them) as its default export, or as a named `provider`/`providers` export.
+
+const category = z.enum(DATA_CATEGORIES as [DataCategory, ...DataCategory[]])
+const fn = z.custom<(...args: unknown[]) => unknown>(
+	(value) => typeof value === 'function',
+	'Expected function',
+)
+const rateWindow = z.object({
+	maxRequests: z.number().int().positive(),
+	windowMs: z.number().positive(),
+})
+
+const providerSchema = z.object({
+	// Used in cache keys and `provider:category` config keys
+	name: z.string().regex(/^[\w.-]+$/, 'Use only letters, digits, ".", "_" and "-"'),
+	requiresKey: z.boolean(),
+	keyEnvVar: z.string().optional(),
+	capabilities: z.array(category).min(1),
+	actions: z.record(category, z.record(z.array(z.string()))).optional(),
+	priority: z.record(category, z.number()),
+	rateLimits: rateWindow.extend({ quotas: z.array(rateWindow).optional() }),
+	isEnabled: fn,
+	execute: fn,
+})
+
+/** Where a plugin is imported from: paths resolve against the config directory, packages against the cwd. */
+export function resolvePluginSpecifier(spec: string): string {
+	if (spec.startsWith('.') || isAbsolute(spec)) {
+		return pathToFileURL(resolve(dirname(getConfigPath()), spec)).href
+	}
+	try {
+		const require = createRequire(join(process.cwd(), 'noop.js'))
+		return pathToFileURL(require.resolve(spec)).href
+	} catch {
+		// Not installed in the project; fall back to omd's own module resolution
+		return spec
+	}
+}
+
+/** Import a plugin and check everything it exports against the Provider interface. */
+export async function loadPlugin(spec: string): Promise<Provider[]> {
+	let mod: Record<string, unknown>
+	try {
+		mod = await import(resolvePluginSpecifier(spec))
+	} catch (err) {
+		throw new OmdError(`Cannot load plugin "${spec}": ${(err as Error).message}`, { cause: err })
+	}
+
+	const exported = mod.default ?? mod.providers ?? mod.provider
+	if (exported === undefined) {
+		throw new OmdError(
+			`Plugin "${spec}" exports no provider (expected a default, "provider" or "providers" export)`,
+		)
+	}
+
+	const candidates = Array.isArray(exported) ? exported : [exported]
+	return candidates.map((candidate, i) => {
+		const parsed = providerSchema.safeParse(candidate)
+		if (!parsed.success) {
+			const where = candidates.length > 1 ? ` (provider ${i + 1})` : ''
+			const problems = describeIssues(parsed.error, 'export')
+			throw new OmdError(`Plugin "${spec}"${where} is not a valid provider: ${problems.join('; ')}`)
+		}
+		// Register the original object so methods keep their `this`
+		return candidate as Provider
+	})
+}
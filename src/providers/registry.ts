@@ -1,14 +1,24 @@
-import { registerProvider } from '../core/router.js'
+import { loadConfig } from '../core/config.js'
+import { OmdError } from '../core/errors.js'
+import { getProviders, registerProvider } from '../core/router.js'
 import { alphaVantage } from './alpha-vantage.js'
 import { binance } from './binance.js'
 import { coingecko } from './coingecko.js'
 import { finnhub } from './finnhub.js'
 import { fred } from './fred.js'
+import { isMockEnabled, mock } from './mock.js'
+import { loadPlugin } from './plugins.js'
 import { secEdgar } from './sec-edgar.js'
 import { worldBank } from './world-bank.js'
 import { yahoo } from './yahoo-finance.js'
 
-export function registerAllProviders(): void {
+export interface RegisterOptions {
+	/** Called instead of throwing when a plugin can't be loaded, so the rest still register */
+	onPluginError?: (spec: string, error: unknown) => void
+}
+
+/** Register the built-in providers, then any plugins listed in the config. */
+export async function registerAllProviders(options: RegisterOptions = {}): Promise<void> {
 	registerProvider(secEdgar)
 	registerProvider(yahoo)
 	registerProvider(binance)
@@ -17,4 +27,23 @@ export function registerAllProviders(): void {
 	registerProvider(finnhub)
 	registerProvider(alphaVantage)
 	registerProvider(worldBank)
+	// Only present when switched on, so it never shows up as a source otherwise
+	if (isMockEnabled()) registerProvider(mock)
+
+	for (const spec of loadConfig().plugins ?? []) {
+		try {
+			const plugins = await loadPlugin(spec)
+			const taken = new Set(getProviders().map((p) => p.name))
+			for (const plugin of plugins) {
+				if (taken.has(plugin.name)) {
+					throw new OmdError(`Plugin "${spec}": a source named "${plugin.name}" already exists`)
+				}
+				taken.add(plugin.name)
+			}
+			for (const plugin of plugins) registerProvider(plugin)
+		} catch (err) {
+			if (!options.onPluginError) throw err
+			options.onPluginError(spec, err)
+		}
+	}
 }
@@ -1,5 +1,15 @@
+import { z } from 'zod'
 import { loadConfig } from '../core/config.js'
-import { consumeToken } from '../core/rate-limiter.js'
+import { parseUpstream } from '../core/contracts.js'
+import {
+	InvalidArgumentError,
+	RateLimitError,
+	SymbolNotFoundError,
+	UnsupportedActionError,
+	errorFromStatus,
+} from '../core/errors.js'
+import { httpFetch } from '../core/http.js'
+import { acquireToken } from '../core/rate-limiter.js'
 import type { Filing, FinancialStatement, InsiderTransaction, SearchResult } from '../types.js'
 import type { DataCategory, Provider, ProviderResult, RateLimitConfig } from './types.js'
 
@@ -17,6 +27,10 @@ interface TickerEntry {
 
 let tickerMap: Map<string, TickerEntry> | null = null
 
+const tickersSchema = z.record(
+	z.object({ cik_str: z.number(), ticker: z.string(), title: z.string() }),
+)
+
 function getUserAgent(): string {
 	const config = loadConfig()
 	if (!config.edgarUserAgent && !userAgentWarned) {
@@ -33,10 +47,13 @@ function padCik(cik: number): string {
 }
 
 async function fetchWithAgent(url: string, rateLimits: RateLimitConfig): Promise<Response> {
-	if (!consumeToken('sec-edgar', rateLimits)) {
-		throw new Error('SEC EDGAR rate limit exceeded — max 10 requests/second')
+	if (!(await acquireToken('sec-edgar', rateLimits))) {
+		throw new RateLimitError('SEC EDGAR rate limit exceeded — max 10 requests/second', {
+			source: 'sec-edgar',
+			local: true,
+		})
 	}
-	return fetch(url, {
+	return httpFetch(url, {
 		headers: {
 			'User-Agent': getUserAgent(),
 			Accept: 'application/json',
@@ -49,13 +66,19 @@ async function loadTickerMap(rateLimits: RateLimitConfig): Promise<Map<string, T
 
 	const res = await fetchWithAgent('https://www.sec.gov/files/company_tickers.json', rateLimits)
 	if (!res.ok) {
-		throw new Error(`Failed to load company tickers: ${res.status} ${res.statusText}`)
+		throw errorFromStatus(
+			res.status,
+			`Failed to load company tickers: ${res.status} ${res.statusText}`,
+			{
+				source: 'sec-edgar',
+			},
+		)
 	}
 
-	const data = (await res.json()) as Record<
-		string,
-		{ cik_str: number; ticker: string; title: string }
-	>
+	const data = parseUpstream(tickersSchema, await res.json(), {
+		source: 'sec-edgar',
+		what: 'company tickers',
+	})
 
 	tickerMap = new Map<string, TickerEntry>()
 	for (const entry of Object.values(data)) {
@@ -71,36 +94,39 @@ async function loadTickerMap(rateLimits: RateLimitConfig): Promise<Map<string, T
 function lookupTicker(map: Map<string, TickerEntry>, symbol: string): TickerEntry {
 	const entry = map.get(symbol.toUpperCase())
 	if (!entry) {
-		throw new Error(`Ticker "${symbol}" not found in SEC EDGAR database`)
+		throw new SymbolNotFoundError(`Ticker "${symbol}" not found in SEC EDGAR database`, {
+			symbol,
+			source: 'sec-edgar',
+		})
 	}
 	return entry
 }
 
 // --- XBRL fact extraction helpers ---
 
-interface XbrlUnit {
-	end: string
-	val: number
-	form: string
-	fp: string
-	fy: number
-	filed: string
-}
-
-interface XbrlConcept {
-	units: Record<string, XbrlUnit[]>
-}
-
-interface XbrlFacts {
-	'us-gaap'?: Record<string, XbrlConcept>
-}
-
-interface CompanyFactsResponse {
-	facts: XbrlFacts
-}
+const xbrlUnitSchema = z.object({
+	end: z.string(),
+	val: z.number(),
+	form: z.string(),
+	fp: z.string().nullable(),
+	fy: z.number().nullable(),
+	filed: z.string(),
+})
+
+const xbrlConceptSchema = z.object({
+	units: z.record(z.array(xbrlUnitSchema)),
+})
+
+// Concepts are checked one by one in groupFactsByPeriod: the full payload runs to
+// megabytes and only a handful of tags are read
+const companyFactsSchema = z.object({
+	facts: z.object({
+		'us-gaap': z.record(z.unknown()).optional(),
+	}),
+})
 
 function groupFactsByPeriod(
-	facts: Record<string, XbrlConcept> | undefined,
+	facts: Record<string, unknown> | undefined,
 	formFilter: string,
 ): Map<string, Map<string, number>> {
 	// Groups fact values by period key (fp + fy), e.g. "FY2023" or "Q1-2024"
@@ -127,8 +153,11 @@ function groupFactsByPeriod(
 	]
 
 	for (const tag of tags) {
-		const concept = facts[tag]
-		if (!concept) continue
+		if (!facts[tag]) continue
+		const concept = parseUpstream(xbrlConceptSchema, facts[tag], {
+			source: 'sec-edgar',
+			what: `companyfacts ${tag}`,
+		})
 
 		const unitEntries =
 			concept.units.USD ??
@@ -204,26 +233,31 @@ function sumOptional(a: number | undefined, b: number | undefined): number | und
 
 // --- Search implementation ---
 
-interface EdgarSearchHitSource {
-	display_names?: string[]
-	file_date?: string
-	period_ending?: string
-	form?: string
-	file_description?: string
-	adsh?: string
-	ciks?: string[]
-}
-
-interface EdgarSearchHit {
-	_id: string
-	_source: EdgarSearchHitSource
-}
-
-interface EdgarSearchResponse {
-	hits?: {
-		hits?: EdgarSearchHit[]
-	}
-}
+const edgarSearchSchema = z.object({
+	hits: z
+		.object({
+			hits: z
+				.array(
+					z.object({
+						_id: z.string(),
+						_source: z.object({
+							display_names: z.array(z.string()).optional(),
+							file_date: z.string().optional(),
+							period_ending: z.string().nullish(),
+							form: z.string().optional(),
+							file_description: z
+								.string()
+								.nullish()
+								.transform((v) => v ?? undefined),
+							adsh: z.string().optional(),
+							ciks: z.array(z.string()).optional(),
+						}),
+					}),
+				)
+				.optional(),
+		})
+		.optional(),
+})
 
 async function executeSearch(
 	args: Record<string, unknown>,
@@ -260,7 +294,10 @@ async function executeSearch(
 	const res = await fetchWithAgent(url, rateLimits)
 
 	if (res.ok) {
-		const data = (await res.json()) as EdgarSearchResponse
+		const data = parseUpstream(edgarSearchSchema, await res.json(), {
+			source: 'sec-edgar',
+			what: 'full-text search',
+		})
 		const hits = data.hits?.hits ?? []
 		for (const hit of hits.slice(0, 10)) {
 			const src = hit._source
@@ -287,7 +324,7 @@ async function executeFinancials(
 	rateLimits: RateLimitConfig,
 ): Promise<ProviderResult<FinancialStatement[]>> {
 	const symbol = args.symbol as string
-	if (!symbol) throw new Error('symbol is required for financials')
+	if (!symbol) throw new InvalidArgumentError('symbol is required for financials')
 
 	const period = (args.period as string) ?? 'annual'
 	const formFilter = period === 'quarterly' ? '10-Q' : '10-K'
@@ -300,10 +337,19 @@ async function executeFinancials(
 	const res = await fetchWithAgent(url, rateLimits)
 
 	if (!res.ok) {
-		throw new Error(`Failed to fetch company facts: ${res.status} ${res.statusText}`)
+		throw errorFromStatus(
+			res.status,
+			`Failed to fetch company facts: ${res.status} ${res.statusText}`,
+			{
+				source: 'sec-edgar',
+			},
+		)
 	}
 
-	const body = (await res.json()) as CompanyFactsResponse
+	const body = parseUpstream(companyFactsSchema, await res.json(), {
+		source: 'sec-edgar',
+		what: 'companyfacts',
+	})
 	const usGaap = body.facts['us-gaap']
 	const periodGroups = groupFactsByPeriod(usGaap, formFilter)
 
@@ -325,27 +371,30 @@ async function executeFinancials(
 
 // --- Filing list implementation ---
 
-interface SubmissionsRecent {
-	accessionNumber: string[]
-	filingDate: string[]
-	reportDate: string[]
-	form: string[]
-	primaryDocument: string[]
-	primaryDocDescription: string[]
-}
-
-interface SubmissionsResponse {
-	filings?: {
-		recent?: SubmissionsRecent
-	}
-}
+// Recent filings come as parallel arrays, one entry per filing
+const submissionsSchema = z.object({
+	filings: z
+		.object({
+			recent: z
+				.object({
+					accessionNumber: z.array(z.string()),
+					filingDate: z.array(z.string()),
+					reportDate: z.array(z.string()),
+					form: z.array(z.string()),
+					primaryDocument: z.array(z.string()),
+					primaryDocDescription: z.array(z.string()),
+				})
+				.optional(),
+		})
+		.optional(),
+})
 
 async function executeFilingList(
 	args: Record<string, unknown>,
 	rateLimits: RateLimitConfig,
 ): Promise<ProviderResult<Filing[]>> {
 	const symbol = args.symbol as string
-	if (!symbol) throw new Error('symbol is required for filing/list')
+	if (!symbol) throw new InvalidArgumentError('symbol is required for filing/list')
 
 	const formType = args.type as string | undefined
 	const latest = args.latest as boolean | undefined
@@ -358,10 +407,19 @@ async function executeFilingList(
 	const res = await fetchWithAgent(url, rateLimits)
 
 	if (!res.ok) {
-		throw new Error(`Failed to fetch submissions: ${res.status} ${res.statusText}`)
+		throw errorFromStatus(
+			res.status,
+			`Failed to fetch submissions: ${res.status} ${res.statusText}`,
+			{
+				source: 'sec-edgar',
+			},
+		)
 	}
 
-	const body = (await res.json()) as SubmissionsResponse
+	const body = parseUpstream(submissionsSchema, await res.json(), {
+		source: 'sec-edgar',
+		what: 'submissions',
+	})
 	const recent = body.filings?.recent
 
 	if (!recent) {
@@ -401,7 +459,7 @@ async function executeInsiders(
 	rateLimits: RateLimitConfig,
 ): Promise<ProviderResult<InsiderTransaction[]>> {
 	const symbol = args.symbol as string
-	if (!symbol) throw new Error('symbol is required for insiders/list')
+	if (!symbol) throw new InvalidArgumentError('symbol is required for insiders/list')
 
 	const map = await loadTickerMap(rateLimits)
 	const { cik } = lookupTicker(map, symbol)
@@ -427,7 +485,10 @@ async function executeInsiders(
 
 	const insiderLimit = (args.limit as number | undefined) ?? 20
 	if (res.ok) {
-		const data = (await res.json()) as EdgarSearchResponse
+		const data = parseUpstream(edgarSearchSchema, await res.json(), {
+			source: 'sec-edgar',
+			what: 'full-text search',
+		})
 		const hits = data.hits?.hits ?? []
 
 		for (const hit of hits) {
@@ -466,6 +527,12 @@ export const secEdgar: Provider = {
 	name: 'sec-edgar',
 	requiresKey: false,
 	capabilities: ['search', 'financials', 'filing', 'insiders'],
+	actions: {
+		search: { search: ['query', 'startDate', 'endDate', 'forms'] },
+		financials: { get: ['symbol', 'period', 'limit'] },
+		filing: { list: ['symbol', 'type', 'latest', 'limit'] },
+		insiders: { list: ['symbol', 'limit'] },
+	},
 	priority: { search: 2, financials: 1, filing: 1, insiders: 1 },
 	rateLimits: { maxRequests: 10, windowMs: 1000 },
 
@@ -490,7 +557,7 @@ export const secEdgar: Provider = {
 			case 'insiders/list':
 				return (await executeInsiders(args, this.rateLimits)) as ProviderResult<T>
 			default:
-				throw new Error(`SEC EDGAR does not support ${key}`)
+				throw new UnsupportedActionError(`SEC EDGAR does not support ${key}`)
 		}
 	},
 }
@@ -11,22 +11,69 @@ export type DataCategory =
 	| 'earnings'
 	| 'dividends'
 
-export interface RateLimitConfig {
+export const DATA_CATEGORIES: readonly DataCategory[] = [
+	'search',
+	'quote',
+	'financials',
+	'filing',
+	'insiders',
+	'macro',
+	'crypto',
+	'history',
+	'options',
+	'earnings',
+	'dividends',
+]
+
+export interface RateLimitWindow {
 	maxRequests: number
 	windowMs: number
 }
 
+/**
+ * The primary window is a token bucket that refills continuously (burst control).
+ * `quotas` are hard caps counted over fixed, UTC-aligned windows — e.g. a daily
+ * quota resets at midnight UTC — all of which must have room for a request.
+ */
+export interface RateLimitConfig extends RateLimitWindow {
+	quotas?: RateLimitWindow[]
+}
+
 export interface ProviderResult<T = unknown> {
 	data: T
 	source: string
 	cached: boolean
+	/** When the cached data was originally fetched (epoch ms) */
+	cachedAt?: number
+	/** Served from an expired cache entry because every provider failed */
+	stale?: boolean
 }
 
+/** Outcome of one item in a native batch call: its result, or why that item failed */
+export type BatchItemResult<T = unknown> = ProviderResult<T> | Error
+
+export interface ExecuteOptions {
+	/**
+	 * Aborted when the attempt times out or the caller cancels. Under the router, HTTP
+	 * calls made through httpFetch() are cancelled with it automatically; a provider using
+	 * its own transport should pass it on.
+	 */
+	signal?: AbortSignal
+}
+
+/** Actions a provider serves within one category, each with the arg names it accepts */
+export type ActionCapabilities = Record<string, readonly string[]>
+
 export interface Provider {
 	name: string
 	requiresKey: boolean
 	keyEnvVar?: string
 	capabilities: DataCategory[]
+	/**
+	 * Per-category action declarations, e.g. `{ crypto: { quote: ['symbol'] } }`.
+	 * A category without an entry is assumed to support every action.
+	 */
+	actions?: Partial<Record<DataCategory, ActionCapabilities>>
 	priority: Partial<Record<DataCategory, number>>
 	rateLimits: RateLimitConfig
 	isEnabled(): boolean
@@ -34,5 +81,17 @@ export interface Provider {
 		category: DataCategory,
 		action: string,
 		args: Record<string, unknown>,
+		options?: ExecuteOptions,
 	): Promise<ProviderResult<T>>
+	/**
+	 * Serve several requests for one category/action with a single upstream call, for
+	 * providers with a native batch endpoint. Returns one outcome per args, in order, or
+	 * undefined when the action has no such endpoint (each is then executed on its own).
+	 */
+	executeBatch?<T = unknown>(
+		category: DataCategory,
+		action: string,
+		argsList: Record<string, unknown>[],
+		options?: ExecuteOptions,
+	): Promise<BatchItemResult<T>[] | undefined>
 }
@@ -1,53 +1,48 @@
-import { consumeToken } from '../core/rate-limiter.js'
-import type { MacroDataPoint, MacroSeries } from '../types.js'
+import { z } from 'zod'
+import { parseUpstream } from '../core/contracts.js'
+import {
+	InvalidArgumentError,
+	RateLimitError,
+	UnsupportedActionError,
+	UpstreamError,
+	errorFromStatus,
+} from '../core/errors.js'
+import { httpFetch } from '../core/http.js'
+import { acquireToken } from '../core/rate-limiter.js'
+import type { MacroDataPoint, MacroSearchResult, MacroSeries } from '../types.js'
 import type { DataCategory, Provider, ProviderResult } from './types.js'
 
 const BASE_URL = 'https://api.worldbank.org/v2'
 
-interface WbPagination {
-	page: number
-	pages: number
-	per_page: number
-	total: number
-}
-
-interface WbIndicator {
-	id: string
-	name: string
-	unit: string
-	source: { id: string; value: string }
-	sourceNote: string
-	sourceOrganization: string
-	topics: { id: string; value: string }[]
-}
-
-interface WbDataEntry {
-	indicator: { id: string; value: string }
-	country: { id: string; value: string }
-	countryiso3code: string
-	date: string
-	value: number | null
-	unit: string
-	decimal: number
-}
-
-interface WbSearchResult {
-	id: string
-	title: string
-	units: string
-	frequency: string
-	seasonal_adjustment: string
-	popularity: number
-}
-
-type WbResponse<T> = [WbPagination, T[] | null]
-
-async function wbFetch<T>(
+const paginationSchema = z.object({
+	page: z.number(),
+	pages: z.number(),
+	per_page: z.coerce.number(),
+	total: z.number(),
+})
+
+const indicatorSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	unit: z.string(),
+})
+
+const dataEntrySchema = z.object({
+	indicator: z.object({ id: z.string(), value: z.string() }),
+	date: z.string(),
+	value: z.number().nullable(),
+})
+
+async function wbFetch<S extends z.ZodTypeAny>(
 	path: string,
+	entrySchema: S,
 	params: Record<string, string | number | undefined> = {},
-): Promise<WbResponse<T>> {
-	if (!consumeToken('worldbank', worldBank.rateLimits)) {
-		throw new Error('[worldbank] Rate limit exceeded. Try again shortly.')
+): Promise<[z.output<typeof paginationSchema>, z.output<S>[] | null]> {
+	if (!(await acquireToken('worldbank', worldBank.rateLimits))) {
+		throw new RateLimitError('[worldbank] Rate limit exceeded. Try again shortly.', {
+			source: 'worldbank',
+			local: true,
+		})
 	}
 
 	const url = new URL(`${BASE_URL}${path}`)
@@ -59,29 +54,34 @@ async function wbFetch<T>(
 		}
 	}
 
-	const response = await fetch(url.toString())
+	const response = await httpFetch(url.toString())
 
 	if (!response.ok) {
 		const text = await response.text()
-		throw new Error(`[worldbank] API error (${response.status}): ${text}`)
+		throw errorFromStatus(response.status, `[worldbank] API error (${response.status}): ${text}`, {
+			source: 'worldbank',
+		})
 	}
 
 	const json = await response.json()
 
 	// World Bank returns a two-element array: [pagination, data]
 	if (!Array.isArray(json) || json.length < 2) {
-		throw new Error('[worldbank] Unexpected response format')
+		throw new UpstreamError('[worldbank] Unexpected response format', { source: 'worldbank' })
 	}
 
-	return json as WbResponse<T>
+	return parseUpstream(z.tuple([paginationSchema, z.array(entrySchema).nullable()]), json, {
+		source: 'worldbank',
+		what: path.startsWith('/country/') ? 'indicator data' : 'indicator list',
+	})
 }
 
 async function searchIndicators(
 	args: Record<string, unknown>,
-): Promise<ProviderResult<WbSearchResult[]>> {
+): Promise<ProviderResult<MacroSearchResult[]>> {
 	const query = args.query as string
 	if (!query) {
-		throw new Error('[worldbank] query is required')
+		throw new InvalidArgumentError('[worldbank] query is required')
 	}
 
 	const limit = (args.limit as number | undefined) ?? 20
@@ -89,7 +89,7 @@ async function searchIndicators(
 
 	// Fetch WDI indicators (source=2) — the core ~1500 indicators
 	// The full indicator list has 29K+ entries; WDI is the most useful subset
-	const [, indicators] = await wbFetch<WbIndicator>('/indicator', {
+	const [, indicators] = await wbFetch('/indicator', indicatorSchema, {
 		per_page: 2000,
 		source: 2,
 	})
@@ -102,7 +102,7 @@ async function searchIndicators(
 		.filter((ind) => ind.name.toLowerCase().includes(lowerQuery))
 		.slice(0, limit)
 
-	const results: WbSearchResult[] = matched.map((ind) => ({
+	const results: MacroSearchResult[] = matched.map((ind) => ({
 		id: ind.id,
 		title: ind.name,
 		units: ind.unit || '',
@@ -119,7 +119,7 @@ async function getIndicatorData(
 ): Promise<ProviderResult<MacroSeries>> {
 	const seriesId = args.seriesId as string
 	if (!seriesId) {
-		throw new Error('[worldbank] seriesId is required')
+		throw new InvalidArgumentError('[worldbank] seriesId is required')
 	}
 
 	const start = args.start as string | undefined
@@ -148,13 +148,14 @@ async function getIndicatorData(
 
 	const country = (args.country as string | undefined) ?? 'US'
 	if (!/^[A-Za-z]{2,3}$/.test(country)) {
-		throw new Error(
+		throw new InvalidArgumentError(
 			`[worldbank] Invalid country code "${country}". Use ISO 3166-1 alpha-2 (e.g., US, GB, JP)`,
 		)
 	}
 
-	const [, entries] = await wbFetch<WbDataEntry>(
+	const [, entries] = await wbFetch(
 		`/country/${encodeURIComponent(country)}/indicator/${encodeURIComponent(seriesId)}`,
+		dataEntrySchema,
 		params,
 	)
 
@@ -173,11 +174,7 @@ async function getIndicatorData(
 	const title = entries[0].indicator.value || seriesId
 
 	const dataPoints: MacroDataPoint[] = entries
-		.filter((entry) => entry.value !== null)
-		.map((entry) => ({
-			date: entry.date,
-			value: entry.value as number,
-		}))
+		.flatMap((entry) => (entry.value === null ? [] : [{ date: entry.date, value: entry.value }]))
 		.sort((a, b) => a.date.localeCompare(b.date))
 
 	const series: MacroSeries = {
@@ -196,6 +193,12 @@ export const worldBank: Provider = {
 	name: 'worldbank',
 	requiresKey: false,
 	capabilities: ['macro'] as DataCategory[],
+	actions: {
+		macro: {
+			get: ['seriesId', 'country', 'start', 'end', 'limit'],
+			search: ['query', 'limit'],
+		},
+	},
 	priority: { macro: 3 },
 	rateLimits: { maxRequests: 30, windowMs: 60_000 },
 
@@ -218,7 +221,7 @@ export const worldBank: Provider = {
 				return getIndicatorData(args) as Promise<ProviderResult<T>>
 
 			default:
-				throw new Error(`[worldbank] Provider does not support ${route}`)
+				throw new UnsupportedActionError(`[worldbank] Provider does not support ${route}`)
 		}
 	},
 }
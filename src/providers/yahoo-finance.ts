@@ -1,5 +1,16 @@
 import YahooFinance from 'yahoo-finance2'
-import { consumeToken } from '../core/rate-limiter.js'
+import { z } from 'zod'
+import { parseUpstream } from '../core/contracts.js'
+import {
+	InvalidArgumentError,
+	OmdError,
+	RateLimitError,
+	SymbolNotFoundError,
+	UnsupportedActionError,
+	UpstreamError,
+} from '../core/errors.js'
+import { httpFetch } from '../core/http.js'
+import { acquireToken } from '../core/rate-limiter.js'
 import type {
 	DividendEvent,
 	EarningsData,
@@ -9,49 +20,163 @@ import type {
 	QuoteResult,
 	SearchResult,
 } from '../types.js'
-import type { DataCategory, Provider, ProviderResult } from './types.js'
+import type { BatchItemResult, DataCategory, Provider, ProviderResult } from './types.js'
 
 const SOURCE = 'yahoo'
 
-const yf = new YahooFinance({ suppressNotices: ['yahooSurvey', 'ripHistorical'] })
-
-// Yahoo Finance search quote shape (simplified from the full union)
-interface YFSearchQuote {
-	symbol: string
-	isYahooFinance: boolean
-	exchange: string
-	exchDisp?: string
-	shortname?: string
-	longname?: string
-	quoteType?: string
-}
-
-// Yahoo Finance quote shape (simplified from the full Quote union)
-interface YFQuote {
-	symbol: string
-	regularMarketPrice?: number
-	regularMarketChange?: number
-	regularMarketChangePercent?: number
-	regularMarketVolume?: number
-	regularMarketOpen?: number
-	regularMarketPreviousClose?: number
-	regularMarketDayHigh?: number
-	regularMarketDayLow?: number
-	marketCap?: number
-	fiftyTwoWeekHigh?: number
-	fiftyTwoWeekLow?: number
+const yf = new YahooFinance({
+	suppressNotices: ['yahooSurvey', 'ripHistorical'],
+	// Route yahoo-finance2's requests through the shared HTTP layer (retries, backoff)
+	fetch: (input, init) => httpFetch(input, init),
+})
+
+// Keep typed errors (network, rate limit, not found) as-is; wrap yahoo-finance2's own errors
+function toProviderError(err: unknown, symbol: string, message: string): OmdError {
+	if (err instanceof OmdError) return err
+	const detail = err instanceof Error ? err.message : String(err)
+	if (/not found|delisted/i.test(detail)) {
+		return new SymbolNotFoundError(`[${SOURCE}] Symbol "${symbol}" not found`, {
+			symbol,
+			source: SOURCE,
+			cause: err,
+		})
+	}
+	return new UpstreamError(message, { source: SOURCE, cause: err })
 }
 
-// Yahoo Finance fundamentalsTimeSeries result shape
-interface YFFundamentalsResult {
-	date: Date
-	periodType: string
-	[key: string]: unknown
+// yahoo-finance2 throws TypeErrors on empty quote payloads; report those as not found
+function toQuoteError(err: unknown, symbol: string): OmdError {
+	if (err instanceof OmdError) return err
+	const msg = (err as Error).message
+	// Provide clearer error for common failures
+	if (msg.includes('Cannot read properties') || msg.includes('undefined')) {
+		return new SymbolNotFoundError(`[${SOURCE}] Symbol "${symbol}" not found or returned no data`, {
+			symbol,
+			source: SOURCE,
+			cause: err,
+		})
+	}
+	return toProviderError(err, symbol, `[${SOURCE}] ${msg}`)
 }
 
-function mapSearchResults(quotes: YFSearchQuote[]): SearchResult[] {
+// yahoo-finance2 hands back Dates, but some endpoints still carry epoch seconds or strings
+const dateLike = z.union([z.date(), z.number(), z.string()])
+const optionalNumber = z
+	.number()
+	.nullish()
+	.transform((v) => v ?? undefined)
+
+// Search quote shape (simplified from the full union); non-Yahoo hits such as news carry no symbol
+const yfSearchQuoteSchema = z.object({
+	symbol: z.string(),
+	isYahooFinance: z.literal(true),
+	exchange: z.string(),
+	exchDisp: z.string().optional(),
+	shortname: z.string().optional(),
+	longname: z.string().optional(),
+	quoteType: z.string().optional(),
+})
+type YFSearchQuote = z.infer<typeof yfSearchQuoteSchema>
+
+const yfSearchSchema = z.object({
+	quotes: z.array(z.union([yfSearchQuoteSchema, z.object({ isYahooFinance: z.literal(false) })])),
+})
+
+// Quote shape (simplified from the full Quote union)
+const yfQuoteSchema = z.object({
+	symbol: z.string(),
+	regularMarketPrice: z.number(),
+	regularMarketChange: optionalNumber,
+	regularMarketChangePercent: optionalNumber,
+	regularMarketVolume: optionalNumber,
+	regularMarketOpen: optionalNumber,
+	regularMarketPreviousClose: optionalNumber,
+	regularMarketDayHigh: optionalNumber,
+	regularMarketDayLow: optionalNumber,
+	marketCap: optionalNumber,
+	fiftyTwoWeekHigh: optionalNumber,
+	fiftyTwoWeekLow: optionalNumber,
+})
+type YFQuote = z.infer<typeof yfQuoteSchema>
+
+// fundamentalsTimeSeries rows: one per period, with a field per reported line item
+const yfFundamentalsSchema = z.array(
+	z.object({ date: dateLike, periodType: z.string() }).catchall(z.unknown()),
+)
+type YFFundamentalsResult = z.infer<typeof yfFundamentalsSchema>[number]
+
+// Bars can have null prices (halted days, the still-open session); those are skipped
+const yfChartSchema = z.object({
+	quotes: z.array(
+		z.object({
+			date: dateLike,
+			open: z.number().nullable(),
+			high: z.number().nullable(),
+			low: z.number().nullable(),
+			close: z.number().nullable(),
+			adjclose: optionalNumber,
+			volume: z.number().nullable(),
+		}),
+	),
+})
+
+const yfOptionSchema = z.object({
+	strike: z.number(),
+	expiration: dateLike,
+	lastPrice: optionalNumber,
+	bid: optionalNumber,
+	ask: optionalNumber,
+	volume: optionalNumber,
+	openInterest: optionalNumber,
+	impliedVolatility: optionalNumber,
+})
+
+const yfOptionsSchema = z.object({
+	options: z.array(
+		z.object({
+			calls: z.array(yfOptionSchema).default([]),
+			puts: z.array(yfOptionSchema).default([]),
+		}),
+	),
+})
+
+const yfEarningsSchema = z.object({
+	earnings: z
+		.object({
+			earningsChart: z
+				.object({
+					quarterly: z
+						.array(z.object({ date: z.string(), actual: optionalNumber, estimate: optionalNumber }))
+						.optional(),
+				})
+				.optional(),
+		})
+		.optional(),
+	calendarEvents: z
+		.object({
+			earnings: z
+				.object({
+					earningsDate: z.array(dateLike).optional(),
+					earningsAverage: optionalNumber,
+				})
+				.optional(),
+		})
+		.optional(),
+})
+
+// Dividend events come keyed by timestamp in older yahoo-finance2 releases, as an array in newer ones
+const yfDividendSchema = z.object({ date: dateLike, amount: z.number() })
+const yfDividendsSchema = z.object({
+	events: z
+		.object({
+			dividends: z.union([z.array(yfDividendSchema), z.record(yfDividendSchema)]).optional(),
+		})
+		.optional(),
+})
+
+function mapSearchResults(quotes: z.infer<typeof yfSearchSchema>['quotes']): SearchResult[] {
 	return quotes
-		.filter((q) => q.isYahooFinance)
+		.filter((q): q is YFSearchQuote => q.isYahooFinance)
 		.map((q) => ({
 			symbol: q.symbol,
 			name: q.longname ?? q.shortname ?? q.symbol,
@@ -64,7 +189,7 @@ function mapSearchResults(quotes: YFSearchQuote[]): SearchResult[] {
 function mapQuote(q: YFQuote): QuoteResult {
 	return {
 		symbol: q.symbol,
-		price: q.regularMarketPrice ?? 0,
+		price: q.regularMarketPrice,
 		change: q.regularMarketChange ?? 0,
 		changePercent: q.regularMarketChangePercent ?? 0,
 		volume: q.regularMarketVolume,
@@ -131,6 +256,15 @@ export const yahoo: Provider = {
 		'earnings',
 		'dividends',
 	] as DataCategory[],
+	actions: {
+		search: { search: ['query'] },
+		quote: { get: ['symbol'], batch: ['symbols'] },
+		financials: { get: ['symbol', 'period', 'limit'] },
+		history: { get: ['symbol', 'days'] },
+		options: { get: ['symbol'] },
+		earnings: { get: ['symbol'] },
+		dividends: { get: ['symbol'] },
+	},
 	priority: {
 		search: 3,
 		quote: 1,
@@ -151,8 +285,8 @@ export const yahoo: Provider = {
 		action: string,
 		args: Record<string, unknown>,
 	): Promise<ProviderResult<T>> {
-		if (!consumeToken(SOURCE, this.rateLimits)) {
-			throw new Error(`[${SOURCE}] Rate limit exceeded`)
+		if (!(await acquireToken(SOURCE, this.rateLimits))) {
+			throw new RateLimitError(`[${SOURCE}] Rate limit exceeded`, { source: SOURCE, local: true })
 		}
 
 		const key = `${category}/${action}`
@@ -160,75 +294,87 @@ export const yahoo: Provider = {
 		switch (key) {
 			case 'search/search': {
 				const query = args.query as string
-				if (!query) throw new Error(`[${SOURCE}] search requires query`)
+				if (!query) throw new InvalidArgumentError(`[${SOURCE}] search requires query`)
 
 				try {
-					const result = await yf.search(query)
-					const data = mapSearchResults(result.quotes as unknown as YFSearchQuote[])
+					const result = parseUpstream(yfSearchSchema, await yf.search(query), {
+						source: SOURCE,
+						what: 'search',
+					})
+					const data = mapSearchResults(result.quotes)
 					return {
 						data: data as T,
 						source: SOURCE,
 						cached: false,
 					}
 				} catch (err) {
-					if (args.verbose) {
-						console.error(`[${SOURCE}] search error:`, (err as Error).message)
-					}
-					throw err
+					if (err instanceof OmdError) throw err
+					throw new UpstreamError(`[${SOURCE}] ${(err as Error).message}`, {
+						source: SOURCE,
+						cause: err,
+					})
 				}
 			}
 
 			case 'quote/get': {
-				const symbols = args.symbols as string[] | undefined
-				const symbol = args.symbol as string | undefined
-
-				if (!symbols && !symbol) {
-					throw new Error(`[${SOURCE}] quote requires symbol or symbols`)
-				}
+				const symbol = args.symbol as string
+				if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] quote requires symbol`)
 
 				try {
-					if (symbols && symbols.length > 0) {
-						const results = await yf.quote(symbols)
-						const arr = results as unknown as YFQuote[]
-						if (!arr || arr.length === 0) {
-							throw new Error(
-								`[${SOURCE}] No quote data returned for symbols: ${symbols.join(', ')}`,
-							)
-						}
-						const data = arr.map(mapQuote)
-						return {
-							data: data as T,
+					const result = await yf.quote(symbol)
+					if (!result?.symbol) {
+						// Yahoo lists far more symbols than the fallbacks, so a miss here is final
+						throw new SymbolNotFoundError(`[${SOURCE}] Symbol "${symbol}" not found`, {
+							symbol,
+							definitive: true,
 							source: SOURCE,
-							cached: false,
-						}
-					}
-
-					// symbol is guaranteed non-null here (checked above)
-					const sym = symbol as string
-					const result = await yf.quote(sym)
-					if (!result || !(result as unknown as YFQuote).symbol) {
-						throw new Error(`[${SOURCE}] Symbol "${sym}" not found`)
+						})
 					}
-					const data = mapQuote(result as unknown as YFQuote)
-					return { data: data as T, source: SOURCE, cached: false }
+					const quote = parseUpstream(yfQuoteSchema, result, { source: SOURCE, what: 'quote' })
+					return { data: mapQuote(quote) as T, source: SOURCE, cached: false }
 				} catch (err) {
-					const msg = (err as Error).message
-					// Provide clearer error for common failures
-					if (msg.includes('Cannot read properties') || msg.includes('undefined')) {
-						const s = symbols?.join(', ') ?? symbol
-						throw new Error(`[${SOURCE}] Symbol "${s}" not found or returned no data`)
+					throw toQuoteError(err, symbol)
+				}
+			}
+
+			case 'quote/batch': {
+				const symbols = args.symbols as string[] | undefined
+				if (!symbols || symbols.length === 0) {
+					throw new InvalidArgumentError(`[${SOURCE}] batch quote requires symbols`)
+				}
+
+				try {
+					const results = await yf.quote(symbols)
+					if (!results || results.length === 0) {
+						throw new SymbolNotFoundError(
+							`[${SOURCE}] No quote data returned for symbols: ${symbols.join(', ')}`,
+							{ symbol: symbols.join(','), definitive: true, source: SOURCE },
+						)
 					}
-					if (args.verbose) {
-						console.error(`[${SOURCE}] quote error:`, msg)
+					const quotes = parseUpstream(z.array(yfQuoteSchema), results, {
+						source: SOURCE,
+						what: 'quote',
+					})
+					// Yahoo leaves out symbols it doesn't know; say so rather than return fewer quotes.
+					// routeMany() on quote/get reports each symbol on its own instead.
+					const returned = new Set(quotes.map((q) => q.symbol.toUpperCase()))
+					const missing = symbols.filter((s) => !returned.has(s.toUpperCase()))
+					if (missing.length > 0) {
+						throw new SymbolNotFoundError(
+							`[${SOURCE}] No quote data returned for symbols: ${missing.join(', ')}`,
+							{ symbol: missing.join(','), definitive: true, source: SOURCE },
+						)
 					}
-					throw err
+					return { data: quotes.map(mapQuote) as T, source: SOURCE, cached: false }
+				} catch (err) {
+					throw toQuoteError(err, symbols.join(', '))
 				}
 			}
 
 			case 'financials/get': {
 				const symbol = args.symbol as string
 				if (!symbol) {
-					throw new Error(`[${SOURCE}] financials requires symbol`)
+					throw new InvalidArgumentError(`[${SOURCE}] financials requires symbol`)
 				}
 
 				const period = (args.period as 'annual' | 'quarterly') ?? 'annual'
@@ -249,90 +395,61 @@ export const yahoo: Provider = {
 					)
 
 					const limit = (args.limit as number | undefined) ?? 10
-					const data = mapFinancials(results as unknown as YFFundamentalsResult[], period).slice(
-						0,
-						limit,
-					)
+					const rows = parseUpstream(yfFundamentalsSchema, results, {
+						source: SOURCE,
+						what: 'fundamentals',
+					})
+					const data = mapFinancials(rows, period).slice(0, limit)
 					return { data: data as T, source: SOURCE, cached: false }
 				} catch (err) {
-					if (args.verbose) {
-						console.error(`[${SOURCE}] financials error:`, (err as Error).message)
-					}
-					throw err
+					throw toProviderError(err, symbol, `[${SOURCE}] ${(err as Error).message}`)
 				}
 			}
 
 			case 'history/get': {
 				const symbol = args.symbol as string
-				if (!symbol) throw new Error(`[${SOURCE}] history requires symbol`)
+				if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] history requires symbol`)
 
 				const days = (args.days as number) ?? 30
 				const period1 = new Date()
 				period1.setDate(period1.getDate() - days)
 
 				try {
-					const result = await yf.chart(symbol, { period1 })
-					const raw = result as unknown as {
-						quotes?: Array<{
-							date: Date
-							open: number
-							high: number
-							low: number
-							close: number
-							adjclose?: number
-							volume: number
-						}>
+					const chart = parseUpstream(yfChartSchema, await yf.chart(symbol, { period1 }), {
+						source: SOURCE,
+						what: 'chart',
+					})
+					const data: HistoricalQuote[] = []
+					for (const r of chart.quotes) {
+						if (r.open == null || r.high == null || r.low == null || r.close == null) continue
+						data.push({
+							date: toDateString(r.date),
+							open: r.open,
+							high: r.high,
+							low: r.low,
+							close: r.close,
+							adjClose: r.adjclose,
+							volume: r.volume ?? 0,
+						})
 					}
-					const data: HistoricalQuote[] = (raw.quotes ?? []).map((r) => ({
-						date: toDateString(r.date),
-						open: r.open,
-						high: r.high,
-						low: r.low,
-						close: r.close,
-						adjClose: r.adjclose,
-						volume: r.volume,
-					}))
 					return { data: data as T, source: SOURCE, cached: false }
 				} catch (err) {
-					if (args.verbose) console.error(`[${SOURCE}] history error:`, (err as Error).message)
-					throw new Error(`[${SOURCE}] Could not fetch history for "${symbol}"`)
+					throw toProviderError(err, symbol, `[${SOURCE}] Could not fetch history for "${symbol}"`)
 				}
 			}
 
 			case 'options/get': {
 				const symbol = args.symbol as string
-				if (!symbol) throw new Error(`[${SOURCE}] options requires symbol`)
+				if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] options requires symbol`)
 
 				try {
-					const result = await yf.options(symbol)
-					const raw = result as unknown as {
-						expirationDates?: Date[]
-						options?: Array<{
-							calls?: Array<{
-								strike: number
-								expiration: Date
-								lastPrice?: number
-								bid?: number
-								ask?: number
-								volume?: number
-								openInterest?: number
-								impliedVolatility?: number
-							}>
-							puts?: Array<{
-								strike: number
-								expiration: Date
-								lastPrice?: number
-								bid?: number
-								ask?: number
-								volume?: number
-								openInterest?: number
-								impliedVolatility?: number
-							}>
-						}>
-					}
+					const raw = parseUpstream(yfOptionsSchema, await yf.options(symbol), {
+						source: SOURCE,
+						what: 'options',
+					})
 					const contracts: OptionContract[] = []
-					for (const chain of raw.options ?? []) {
-						for (const c of chain.calls ?? []) {
+					for (const chain of raw.options) {
+						for (const c of chain.calls) {
 							contracts.push({
 								strike: c.strike,
 								expiration: toDateString(c.expiration),
@@ -345,7 +462,7 @@ export const yahoo: Provider = {
 								impliedVolatility: c.impliedVolatility,
 							})
 						}
-						for (const p of chain.puts ?? []) {
+						for (const p of chain.puts) {
 							contracts.push({
 								strike: p.strike,
 								expiration: toDateString(p.expiration),
@@ -361,31 +478,17 @@ export const yahoo: Provider = {
 					}
 					return { data: contracts as T, source: SOURCE, cached: false }
 				} catch (err) {
-					if (args.verbose) console.error(`[${SOURCE}] options error:`, (err as Error).message)
-					throw new Error(`[${SOURCE}] Could not fetch options for "${symbol}"`)
+					throw toProviderError(err, symbol, `[${SOURCE}] Could not fetch options for "${symbol}"`)
 				}
 			}
 
 			case 'earnings/get': {
 				const symbol = args.symbol as string
-				if (!symbol) throw new Error(`[${SOURCE}] earnings requires symbol`)
+				if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] earnings requires symbol`)
 
 				try {
 					const result = await yf.quoteSummary(symbol, { modules: ['earnings', 'calendarEvents'] })
-					const raw = result as unknown as {
-						earnings?: {
-							earningsChart?: {
-								quarterly?: Array<{ date: string; actual?: number; estimate?: number }>
-							}
-						}
-						calendarEvents?: {
-							earnings?: {
-								earningsDate?: Date[]
-								earningsAverage?: number
-								revenueAverage?: number
-							}
-						}
-					}
+					const raw = parseUpstream(yfEarningsSchema, result, { source: SOURCE, what: 'earnings' })
 
 					const quarterly = raw.earnings?.earningsChart?.quarterly ?? []
 					const nextDate = raw.calendarEvents?.earnings?.earningsDate?.[0]
@@ -410,25 +513,23 @@ export const yahoo: Provider = {
 
 					return { data: data as T, source: SOURCE, cached: false }
 				} catch (err) {
-					if (args.verbose) console.error(`[${SOURCE}] earnings error:`, (err as Error).message)
-					throw new Error(`[${SOURCE}] Could not fetch earnings for "${symbol}"`)
+					throw toProviderError(err, symbol, `[${SOURCE}] Could not fetch earnings for "${symbol}"`)
 				}
 			}
 
 			case 'dividends/get': {
 				const symbol = args.symbol as string
-				if (!symbol) throw new Error(`[${SOURCE}] dividends requires symbol`)
+				if (!symbol) throw new InvalidArgumentError(`[${SOURCE}] dividends requires symbol`)
 
 				try {
 					const result = await yf.chart(symbol, {
 						period1: new Date(new Date().setFullYear(new Date().getFullYear() - 5)),
 						events: 'dividends',
 					})
-					const raw = result as unknown as {
-						events?: {
-							dividends?: Record<string, { date: Date; amount: number }>
-						}
-					}
+					const raw = parseUpstream(yfDividendsSchema, result, {
+						source: SOURCE,
+						what: 'dividends',
+					})
 					const dividends = raw.events?.dividends ?? {}
 					const data: DividendEvent[] = Object.values(dividends)
 						.map((d) => ({
@@ -439,13 +540,59 @@ export const yahoo: Provider = {
 						.sort((a, b) => b.date.localeCompare(a.date))
 					return { data: data as T, source: SOURCE, cached: false }
 				} catch (err) {
-					if (args.verbose) console.error(`[${SOURCE}] dividends error:`, (err as Error).message)
-					throw new Error(`[${SOURCE}] Could not fetch dividends for "${symbol}"`)
+					throw toProviderError(
+						err,
+						symbol,
+						`[${SOURCE}] Could not fetch dividends for "${symbol}"`,
+					)
 				}
 			}
 
 			default:
-				throw new Error(`[${SOURCE}] Unsupported operation: ${key}`)
+				throw new UnsupportedActionError(`[${SOURCE}] Unsupported operation: ${key}`)
+		}
+	},
+
+	// The quote endpoint takes a list of symbols; everything else goes one at a time
+	async executeBatch<T = unknown>(
+		category: DataCategory,
+		action: string,
+		argsList: Record<string, unknown>[],
+	): Promise<BatchItemResult<T>[] | undefined> {
+		if (`${category}/${action}` !== 'quote/get') return undefined
+		if (!(await acquireToken(SOURCE, this.rateLimits))) {
+			throw new RateLimitError(`[${SOURCE}] Rate limit exceeded`, { source: SOURCE, local: true })
+		}
+
+		const symbols = argsList.map((args) => args.symbol as string)
+		let results: unknown[]
+		try {
+			results = (await yf.quote(symbols)) ?? []
+		} catch (err) {
+			throw toQuoteError(err, symbols.join(', '))
 		}
+		const bySymbol = new Map<string, unknown>()
+		for (const r of results) {
+			const symbol = (r as { symbol?: unknown } | null)?.symbol
+			if (typeof symbol === 'string') bySymbol.set(symbol.toUpperCase(), r)
+		}
+
+		// Validate per symbol, so one odd payload doesn't fail the others
+		return symbols.map((symbol) => {
+			const raw = bySymbol.get(symbol.toUpperCase())
+			if (!raw) {
+				return new SymbolNotFoundError(`[${SOURCE}] Symbol "${symbol}" not found`, {
+					symbol,
+					definitive: true,
+					source: SOURCE,
+				})
+			}
+			try {
+				const quote = parseUpstream(yfQuoteSchema, raw, { source: SOURCE, what: 'quote' })
+				return { data: mapQuote(quote) as T, source: SOURCE, cached: false }
+			} catch (err) {
+				return toQuoteError(err, symbol)
+			}
+		})
 	},
 }
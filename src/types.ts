@@ -1,10 +1,17 @@
-export type OutputFormat = 'markdown' | 'json' | 'plain'
+export type OutputFormat = 'markdown' | 'json' | 'plain' | 'csv' | 'ndjson'
 
 export interface GlobalOptions {
 	format: OutputFormat
 	verbose: boolean
 	source?: string
-	noCache: boolean
+	/** false with --no-cache: the cache is neither read nor written */
+	cache: boolean
+	/** false with --no-wait: rate-limited requests fail instead of waiting for a token */
+	wait: boolean
+	/** Max ms past expiry to serve cached data when all providers fail (normalized from --stale-if-error) */
+	staleIfError?: number
+	/** Per-attempt time limit in ms (normalized from --timeout) */
+	timeout?: number
 }
 
 export interface SearchResult {
@@ -126,6 +133,22 @@ export interface MacroSeries {
 	source: string
 }
 
+// Series matches from macro search (FRED and World Bank share FRED's field names)
+export interface MacroSearchResult {
+	id: string
+	title: string
+	units: string
+	frequency: string
+	seasonal_adjustment: string
+	popularity: number
+}
+
+export interface MacroCategory {
+	id: number
+	name: string
+	parentId: number
+}
+
 export interface CryptoQuote {
 	symbol: string
 	name?: string
@@ -142,6 +165,20 @@ export interface CryptoQuote {
 	source: string
 }
 
+export interface CryptoPrice {
+	symbol: string
+	price: number
+}
+
+export interface CryptoMarketOverview {
+	active_cryptocurrencies: number
+	markets: number
+	total_market_cap: Record<string, number>
+	total_volume: Record<string, number>
+	market_cap_percentage: Record<string, number>
+	market_cap_change_percentage_24h_usd: number
+}
+
 export interface CryptoCandle {
 	time: string
 	open: number
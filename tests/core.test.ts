@@ -1,7 +1,27 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { canRequest, consumeToken, getRemaining, resetBucket } from '../src/core/rate-limiter.js'
+import { mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Writable } from 'node:stream'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+	acquireToken,
+	canRequest,
+	consumeToken,
+	getRemaining,
+	getWindowStatus,
+	resetBucket,
+} from '../src/core/rate-limiter.js'
 import * as cache from '../src/core/cache.js'
-import { formatTable, formatKeyValue, formatNumber, formatCurrency, formatPercent } from '../src/core/formatter.js'
+import { withFileLock } from '../src/core/fs.js'
+import { parseDuration, parseTtlSpec, validateConfig } from '../src/core/config.js'
+import { httpFetch, parseRetryAfter, redactUrl, setFetch } from '../src/core/http.js'
+import { createEnvFetch } from '../src/core/proxy.js'
+import { parseUpstream } from '../src/core/contracts.js'
+import { NetworkError, UpstreamError, UpstreamSchemaError, exitCodeFor } from '../src/core/errors.js'
+import { createRecordingFetch, createReplayFetch } from '../src/core/fixtures.js'
+import { binance } from '../src/providers/binance.js'
+import { onTrace, withTraceContext, type TraceEvent } from '../src/core/trace.js'
+import { formatTable, formatKeyValue, formatNumber, formatCurrency, formatPercent, formatDuration, formatSource, numeric, toEnvelope, writeNdjson } from '../src/core/formatter.js'
 import type { RateLimitConfig } from '../src/providers/types.js'
 
 describe('rate-limiter', () => {
@@ -29,6 +49,183 @@ describe('rate-limiter', () => {
 	})
 })
 
+describe('rate-limiter: quotas and persistence', () => {
+	const config: RateLimitConfig = {
+		maxRequests: 5,
+		windowMs: 1000,
+		quotas: [{ maxRequests: 7, windowMs: 86_400_000 }],
+	}
+	let dir: string
+
+	beforeEach(() => {
+		vi.useFakeTimers()
+		vi.setSystemTime(new Date('2026-03-10T12:00:00Z'))
+		dir = mkdtempSync(join(tmpdir(), 'omd-limits-'))
+		resetBucket('quota-test')
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('enforces the daily quota even after the bucket refills', () => {
+		for (let i = 0; i < 5; i++) expect(consumeToken('quota-test', config)).toBe(true)
+		vi.advanceTimersByTime(1000)
+		expect(consumeToken('quota-test', config)).toBe(true)
+		expect(consumeToken('quota-test', config)).toBe(true)
+		expect(consumeToken('quota-test', config)).toBe(false)
+		expect(getRemaining('quota-test', config)).toBe(0)
+
+		const [, daily] = getWindowStatus('quota-test', config)
+		expect(daily.remaining).toBe(0)
+		expect(daily.resetInMs).toBe(12 * 3_600_000 - 1000)
+
+		// A new UTC day starts the quota over
+		vi.setSystemTime(new Date('2026-03-11T00:00:00Z'))
+		expect(consumeToken('quota-test', config)).toBe(true)
+	})
+
+	it('shares usage across processes through the state file', async () => {
+		const path = join(dir, 'rate-limits.json')
+		vi.resetModules()
+		const first = await import('../src/core/rate-limiter.js')
+		first.persistRateLimitsTo(path)
+		for (let i = 0; i < 4; i++) first.consumeToken('quota-test', config)
+
+		// A fresh module instance stands in for the next CLI run
+		vi.resetModules()
+		const second = await import('../src/core/rate-limiter.js')
+		second.persistRateLimitsTo(path)
+		expect(second.getRemaining('quota-test', config)).toBe(1)
+		vi.advanceTimersByTime(1000)
+		expect(second.getRemaining('quota-test', config)).toBe(3)
+		expect(readdirSync(dir)).toEqual(['rate-limits.json'])
+	})
+})
+
+describe('rate-limiter: acquireToken', () => {
+	const config: RateLimitConfig = {
+		maxRequests: 2,
+		windowMs: 1000,
+		quotas: [{ maxRequests: 3, windowMs: 86_400_000 }],
+	}
+
+	beforeEach(() => {
+		vi.useFakeTimers()
+		vi.setSystemTime(new Date('2026-03-10T12:00:00Z'))
+		resetBucket('wait-test')
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('waits for the bucket to refill', async () => {
+		for (let i = 0; i < 2; i++) consumeToken('wait-test', config)
+		let acquired: boolean | undefined
+		const pending = acquireToken('wait-test', config, { maxWaitMs: 5000 }).then((ok) => {
+			acquired = ok
+		})
+		await vi.advanceTimersByTimeAsync(400)
+		expect(acquired).toBeUndefined()
+		await vi.advanceTimersByTimeAsync(100)
+		await pending
+		expect(acquired).toBe(true)
+	})
+
+	it('fails fast when the wait would exceed maxWaitMs', async () => {
+		for (let i = 0; i < 2; i++) consumeToken('wait-test', config)
+		expect(await acquireToken('wait-test', config, { maxWaitMs: 0 })).toBe(false)
+	})
+
+	it('does not wait for an exhausted daily quota', async () => {
+		for (let i = 0; i < 2; i++) consumeToken('wait-test', config)
+		vi.advanceTimersByTime(1000)
+		consumeToken('wait-test', config)
+		expect(await acquireToken('wait-test', config, { maxWaitMs: 60_000 })).toBe(false)
+	})
+
+	it('stops waiting without taking a token when the attempt is given up', async () => {
+		for (let i = 0; i < 2; i++) consumeToken('wait-test', config)
+		const controller = new AbortController()
+		const pending = acquireToken('wait-test', config, { maxWaitMs: 5000, signal: controller.signal })
+		controller.abort()
+		await expect(pending).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }))
+		expect(vi.getTimerCount()).toBe(0)
+		vi.advanceTimersByTime(1000)
+		expect(getRemaining('wait-test', config)).toBe(1)
+	})
+})
+
+describe('fs: withFileLock', () => {
+	let dir: string
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'omd-lock-'))
+	})
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('releases the lock after running', () => {
+		const path = join(dir, 'state.json')
+		expect(withFileLock(path, () => readdirSync(dir))).toEqual(['state.json.lock'])
+		expect(readdirSync(dir)).toEqual([])
+	})
+
+	it('breaks a lock left behind by a crashed process', () => {
+		const path = join(dir, 'state.json')
+		writeFileSync(`${path}.lock`, '')
+		const old = new Date(Date.now() - 60_000)
+		utimesSync(`${path}.lock`, old, old)
+		expect(withFileLock(path, () => 'ran')).toBe('ran')
+	})
+
+	it('leaves alone a fresh lock that took the place of the stale one it found', async () => {
+		const path = join(dir, 'state.json')
+		const lockPath = `${path}.lock`
+		let raced = false
+		let restored: boolean | undefined
+		vi.resetModules()
+		vi.doMock('node:fs', async (importOriginal) => {
+			const fs = await importOriginal<typeof import('node:fs')>()
+			return {
+				...fs,
+				renameSync: (from: string, to: string) => {
+					if (from === lockPath && !raced) {
+						// Another process breaks the stale lock and takes a fresh one first
+						raced = true
+						fs.unlinkSync(lockPath)
+						fs.writeFileSync(lockPath, 'other')
+					}
+					fs.renameSync(from, to)
+				},
+				openSync: (file: string, ...rest: [string, number]) => {
+					if (raced && restored === undefined && fs.existsSync(file)) {
+						restored = fs.readFileSync(file, 'utf-8') === 'other'
+						// ...and releases it when done
+						fs.unlinkSync(file)
+					}
+					return fs.openSync(file, ...rest)
+				},
+			}
+		})
+		try {
+			const { withFileLock: lock } = await import('../src/core/fs.js')
+			writeFileSync(lockPath, '')
+			const old = new Date(Date.now() - 60_000)
+			utimesSync(lockPath, old, old)
+			expect(lock(path, () => 'ran')).toBe('ran')
+			expect(restored).toBe(true)
+			expect(readdirSync(dir)).toEqual([])
+		} finally {
+			vi.doUnmock('node:fs')
+		}
+	})
+})
+
 describe('cache', () => {
 	beforeEach(() => {
 		cache.clear()
@@ -58,6 +255,499 @@ describe('cache', () => {
 	})
 })
 
+describe('cache: TTL overrides', () => {
+	beforeEach(() => {
+		cache.clear()
+		cache.setTtlOverrides({})
+	})
+
+	it('uses built-in TTLs by default', () => {
+		expect(cache.resolveTtl('yahoo', 'quote')).toBe(30_000)
+	})
+
+	it('prefers provider-specific over category over wildcard overrides', () => {
+		cache.setTtlOverrides({ '*': 1000, macro: 2000, 'fred:macro': 86_400_000 })
+		expect(cache.resolveTtl('fred', 'macro')).toBe(86_400_000)
+		expect(cache.resolveTtl('worldbank', 'macro')).toBe(2000)
+		expect(cache.resolveTtl('yahoo', 'quote')).toBe(1000)
+	})
+
+	it('does not store entries with a zero TTL', () => {
+		cache.setTtlOverrides({ quote: 0 })
+		cache.set('yahoo', 'quote', { symbol: 'AAPL' }, { price: 100 })
+		expect(cache.size()).toBe(0)
+		cache.setTtlOverrides({})
+	})
+})
+
+describe('config: cache TTL parsing', () => {
+	it('parses durations (bare numbers are seconds)', () => {
+		expect(parseDuration(30)).toBe(30_000)
+		expect(parseDuration('30')).toBe(30_000)
+		expect(parseDuration('500ms')).toBe(500)
+		expect(parseDuration('5m')).toBe(300_000)
+		expect(parseDuration('24h')).toBe(86_400_000)
+		expect(() => parseDuration('soon')).toThrow(/Invalid duration/)
+		expect(() => parseDuration(-1)).toThrow(/Invalid duration/)
+	})
+
+	it('parses --cache-ttl specs', () => {
+		expect(parseTtlSpec('0')).toEqual({ '*': 0 })
+		expect(parseTtlSpec('quote=0,fred:macro=24h')).toEqual({ quote: 0, 'fred:macro': 86_400_000 })
+		expect(() => parseTtlSpec('quotes=0')).toThrow(/unknown category/)
+	})
+
+	it('validates cacheTtl in config', () => {
+		expect(validateConfig({ cacheTtl: { quote: 0, 'fred:macro': '24h' } })).toEqual([])
+		const problems = validateConfig({ cacheTtl: { bogus: '1h', quote: 'later' } })
+		expect(problems).toHaveLength(2)
+		expect(problems[0]).toMatch(/unknown category "bogus"/)
+		expect(problems[1]).toMatch(/cacheTtl.quote/)
+	})
+
+	it('validates providerPriority in config', () => {
+		expect(validateConfig({ providerPriority: { quote: ['finnhub', 'yahoo'] } })).toEqual([])
+		const problems = validateConfig({
+			providerPriority: { quotes: ['yahoo'], financials: 'yahoo' },
+		} as never)
+		expect(problems).toEqual([
+			'providerPriority: unknown category "quotes"',
+			'providerPriority.financials must be a list of source names',
+		])
+	})
+
+	it('drops invalid settings from the config file with a warning, so they can be fixed', async () => {
+		const home = mkdtempSync(join(tmpdir(), 'omd-config-'))
+		vi.stubEnv('HOME', home)
+		const warn = vi.spyOn(console, 'error').mockImplementation(() => {})
+		try {
+			mkdirSync(join(home, '.omd'))
+			const file = join(home, '.omd', 'config.json')
+			writeFileSync(
+				file,
+				JSON.stringify({ staleIfError: 'soon', retry: null, circuitBreaker: 5, defaultFormat: 'json' }),
+			)
+			vi.resetModules()
+			const config = await import('../src/core/config.js')
+
+			expect(config.loadConfig()).toEqual({ defaultFormat: 'json' })
+			expect(warn).toHaveBeenCalledWith(expect.stringMatching(/ignoring staleIfError/))
+			expect(warn).toHaveBeenCalledWith(expect.stringMatching(/ignoring retry .*\n {2}retry must be an object/))
+			expect(warn).toHaveBeenCalledWith(expect.stringMatching(/circuitBreaker must be an object/))
+			config.saveConfig({ staleIfError: '2h' })
+			expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({ defaultFormat: 'json', staleIfError: '2h' })
+		} finally {
+			warn.mockRestore()
+			vi.unstubAllEnvs()
+			rmSync(home, { recursive: true, force: true })
+		}
+	})
+})
+
+describe('cache: inspection', () => {
+	beforeEach(() => {
+		cache.clear()
+		cache.resetStats()
+	})
+
+	it('lists entries with provider, category and action', () => {
+		cache.set('yahoo', 'quote', { action: 'get', symbol: 'AAPL' }, { price: 100 })
+		cache.set('fred', 'macro', { action: 'get', seriesId: 'GDP' }, { data: [] })
+		const entries = cache.list({ provider: 'yahoo' })
+		expect(entries).toHaveLength(1)
+		expect(entries[0]).toMatchObject({
+			provider: 'yahoo',
+			category: 'quote',
+			action: 'get',
+			args: { symbol: 'AAPL' },
+		})
+	})
+
+	it('removes entries by symbol, category or provider', () => {
+		cache.set('yahoo', 'quote', { action: 'get', symbol: 'AAPL' }, 1)
+		cache.set('yahoo', 'quote', { action: 'get', symbol: 'MSFT' }, 2)
+		cache.set('fred', 'macro', { action: 'get', seriesId: 'GDP' }, 3)
+		expect(cache.remove({ symbol: 'aapl' })).toBe(1)
+		expect(cache.remove({ category: 'macro' })).toBe(1)
+		expect(cache.size()).toBe(1)
+		expect(cache.remove({ provider: 'yahoo' })).toBe(1)
+		expect(cache.size()).toBe(0)
+	})
+
+	it('purges only expired entries', () => {
+		vi.useFakeTimers()
+		cache.set('yahoo', 'quote', { symbol: 'AAPL' }, 1)
+		cache.set('yahoo', 'financials', { symbol: 'AAPL' }, 2)
+		vi.advanceTimersByTime(30_001)
+		expect(cache.purge()).toBe(1)
+		expect(cache.get('yahoo', 'financials', { symbol: 'AAPL' })).toBe(2)
+		vi.useRealTimers()
+	})
+
+	it('counts hits and misses per provider and category', () => {
+		cache.recordMiss('yahoo', 'quote')
+		cache.recordHit('yahoo', 'quote')
+		cache.recordHit('yahoo', 'quote')
+		expect(cache.getStats()).toEqual([{ provider: 'yahoo', category: 'quote', hits: 2, misses: 1 }])
+	})
+})
+
+describe('cache: file store', () => {
+	let dir: string
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'omd-cache-'))
+	})
+
+	afterEach(() => {
+		cache.setStore(cache.createMemoryStore())
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('persists entries across store instances', () => {
+		cache.setStore(cache.createFileStore({ dir }))
+		cache.set('test', 'quote', { symbol: 'AAPL' }, { price: 100 })
+
+		// A fresh store over the same directory simulates a new process
+		cache.setStore(cache.createFileStore({ dir }))
+		expect(cache.get('test', 'quote', { symbol: 'AAPL' })).toEqual({ price: 100 })
+		expect(cache.size()).toBe(1)
+	})
+
+	it('respects TTL on disk', () => {
+		vi.useFakeTimers()
+		cache.setStore(cache.createFileStore({ dir }))
+		cache.set('test', 'quote', { symbol: 'AAPL' }, { price: 100 })
+		vi.advanceTimersByTime(30_001)
+		expect(cache.get('test', 'quote', { symbol: 'AAPL' })).toBeUndefined()
+		vi.useRealTimers()
+	})
+
+	it('evicts oldest entries when over the size limit', () => {
+		cache.setStore(cache.createFileStore({ dir, maxBytes: 1024 }))
+		for (let i = 0; i < 20; i++) {
+			cache.set('test', 'financials', { id: i }, { payload: 'x'.repeat(100) })
+		}
+		expect(cache.size()).toBeLessThan(20)
+		expect(cache.get('test', 'financials', { id: 19 })).toBeDefined()
+	})
+
+	it('adds up counters from every store writing to the directory', () => {
+		const first = cache.createFileStore({ dir })
+		const second = cache.createFileStore({ dir })
+		for (const store of [first, second, first]) {
+			cache.setStore(store)
+			cache.recordHit('test', 'quote')
+		}
+		expect(cache.getStats()).toEqual([{ provider: 'test', category: 'quote', hits: 3, misses: 0 }])
+		// The lock is released after each update
+		expect(readdirSync(dir)).toEqual(['stats.json'])
+	})
+
+	it('clears all entries and leaves no temp files behind', () => {
+		cache.setStore(cache.createFileStore({ dir }))
+		cache.set('test', 'quote', { symbol: 'AAPL' }, { price: 100 })
+		cache.set('test', 'quote', { symbol: 'MSFT' }, { price: 200 })
+		cache.clear()
+		expect(cache.size()).toBe(0)
+		expect(readdirSync(dir)).toEqual([])
+	})
+})
+
+describe('http: retries', () => {
+	const fast = { baseDelayMs: 1, maxDelayMs: 50 }
+
+	afterEach(() => {
+		vi.unstubAllGlobals()
+	})
+
+	function stubFetch(...responses: (Response | Error)[]) {
+		const mock = vi.fn(async () => {
+			const next = responses.shift()
+			if (!next) throw new Error('no more responses')
+			if (next instanceof Error) throw next
+			return next
+		})
+		vi.stubGlobal('fetch', mock)
+		return mock
+	}
+
+	it('retries 5xx and network errors, then succeeds', async () => {
+		const mock = stubFetch(
+			new Response('down', { status: 503 }),
+			new TypeError('fetch failed'),
+			new Response('ok', { status: 200 }),
+		)
+		const res = await httpFetch('https://example.test/', undefined, fast)
+		expect(res.status).toBe(200)
+		expect(mock).toHaveBeenCalledTimes(3)
+	})
+
+	it('returns the last response once retries are exhausted', async () => {
+		const mock = stubFetch(
+			new Response('', { status: 502 }),
+			new Response('', { status: 502 }),
+			new Response('', { status: 502 }),
+		)
+		const res = await httpFetch('https://example.test/', undefined, fast)
+		expect(res.status).toBe(502)
+		expect(mock).toHaveBeenCalledTimes(3)
+	})
+
+	it('never retries auth and other client errors', async () => {
+		for (const status of [401, 403, 404, 451]) {
+			const mock = stubFetch(new Response('', { status }))
+			const res = await httpFetch('https://example.test/', undefined, fast)
+			expect(res.status).toBe(status)
+			expect(mock).toHaveBeenCalledTimes(1)
+		}
+	})
+
+	it('does not retry non-idempotent requests', async () => {
+		const mock = stubFetch(new Response('', { status: 503 }))
+		const res = await httpFetch('https://example.test/', { method: 'POST' }, fast)
+		expect(res.status).toBe(503)
+		expect(mock).toHaveBeenCalledTimes(1)
+	})
+
+	it('gives up immediately when Retry-After exceeds the max delay', async () => {
+		const mock = stubFetch(new Response('', { status: 429, headers: { 'Retry-After': '3600' } }))
+		const res = await httpFetch('https://example.test/', undefined, fast)
+		expect(res.status).toBe(429)
+		expect(mock).toHaveBeenCalledTimes(1)
+	})
+
+	it('parses Retry-After seconds and dates', () => {
+		const now = Date.parse('2025-01-01T00:00:00Z')
+		expect(parseRetryAfter('5')).toBe(5000)
+		expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10_000)
+		expect(parseRetryAfter('soon')).toBeUndefined()
+		expect(parseRetryAfter(null)).toBeUndefined()
+	})
+
+	it('emits a trace event per attempt with credentials redacted', async () => {
+		stubFetch(new Response('', { status: 503 }), new Response('ok', { status: 200 }))
+		const events: TraceEvent[] = []
+		const unsubscribe = onTrace((e) => events.push(e))
+		await withTraceContext({ requestId: 7, category: 'quote', action: 'get', provider: 'finnhub' }, () =>
+			httpFetch('https://example.test/quote?symbol=AAPL&token=secret', undefined, fast),
+		)
+		unsubscribe()
+
+		expect(events.map((e) => e.kind === 'http' && [e.attempt, e.status])).toEqual([
+			[1, 503],
+			[2, 200],
+		])
+		expect(events[0]).toMatchObject({ requestId: 7, provider: 'finnhub', method: 'GET' })
+		expect(redactUrl('https://example.test/q?symbol=AAPL&apikey=secret')).toBe(
+			'https://example.test/q?symbol=AAPL&apikey=***',
+		)
+		expect(JSON.stringify(events)).not.toContain('secret')
+	})
+})
+
+describe('http: transport', () => {
+	const proxyVars = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy']
+
+	afterEach(() => {
+		setFetch()
+		vi.unstubAllGlobals()
+		vi.unstubAllEnvs()
+	})
+
+	it('sends requests through an injected fetch instead of the global one', async () => {
+		const global = vi.fn(async () => new Response('global'))
+		vi.stubGlobal('fetch', global)
+		const injected = vi.fn(async (_input: string | URL | Request, init?: RequestInit) =>
+			new Response(new Headers(init?.headers).get('x-team') ?? ''),
+		)
+
+		setFetch((input, init) => injected(input, { ...init, headers: { 'x-team': 'research' } }))
+		const res = await httpFetch('https://example.test/')
+		expect(await res.text()).toBe('research')
+		expect(global).not.toHaveBeenCalled()
+
+		setFetch()
+		expect(await (await httpFetch('https://example.test/')).text()).toBe('global')
+	})
+
+	it('keeps the built-in fetch unless a proxy or CA file is configured', () => {
+		for (const name of proxyVars) vi.stubEnv(name, '')
+		expect(createEnvFetch()).toBeUndefined()
+
+		vi.stubEnv('HTTPS_PROXY', 'http://proxy.internal:3128')
+		expect(createEnvFetch()).toBeTypeOf('function')
+	})
+
+	it('fails clearly when the CA file cannot be read', () => {
+		expect(() => createEnvFetch({ caFile: '/nonexistent/ca.pem' })).toThrow(
+			/Cannot read caFile \/nonexistent\/ca\.pem/,
+		)
+	})
+})
+
+describe('http: record and replay', () => {
+	let dir: string
+	const fast = { baseDelayMs: 1, maxDelayMs: 50 }
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'omd-fixtures-'))
+	})
+
+	afterEach(() => {
+		setFetch()
+		vi.unstubAllGlobals()
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('records exchanges without credentials and replays them offline', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => Response.json({ c: 189.5 }, { headers: { 'x-ratelimit-remaining': '59' } })),
+		)
+		setFetch(createRecordingFetch(dir))
+		const live = await httpFetch('https://finnhub.io/api/v1/quote?symbol=AAPL&token=secret', undefined, fast)
+		expect(await live.json()).toEqual({ c: 189.5 })
+
+		const files = readdirSync(dir)
+		expect(files).toHaveLength(1)
+		expect(files[0]).toMatch(/^finnhub\.io_api_v1_quote-[0-9a-f]{12}\.json$/)
+		expect(readFileSync(join(dir, files[0]), 'utf-8')).not.toContain('secret')
+
+		const offline = vi.fn(async () => {
+			throw new TypeError('fetch failed')
+		})
+		vi.stubGlobal('fetch', offline)
+		setFetch(createReplayFetch(dir))
+		// A different key still matches, since fixtures are keyed on the redacted URL
+		const replayed = await httpFetch('https://finnhub.io/api/v1/quote?symbol=AAPL&token=other', undefined, fast)
+		expect(replayed.status).toBe(200)
+		expect(replayed.headers.get('x-ratelimit-remaining')).toBe('59')
+		expect(await replayed.json()).toEqual({ c: 189.5 })
+		expect(offline).not.toHaveBeenCalled()
+	})
+
+	it("masks session cookies and Yahoo's crumb in recordings", async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async (input: string) => {
+				const headers = new Headers()
+				headers.append('set-cookie', 'A3=session; Domain=.yahoo.com; Secure')
+				headers.append('set-cookie', 'B=other; Path=/')
+				return new Response(input.endsWith('getcrumb') ? 'realcrumb' : 'ok', { headers })
+			}),
+		)
+		setFetch(createRecordingFetch(dir))
+		const live = await httpFetch('https://query1.finance.yahoo.com/v1/test/getcrumb', undefined, fast)
+		// The caller still sees the real exchange
+		expect(live.headers.getSetCookie()).toEqual(['A3=session; Domain=.yahoo.com; Secure', 'B=other; Path=/'])
+		expect(await live.text()).toBe('realcrumb')
+		await httpFetch('https://finnhub.io/api/v1/quote?symbol=AAPL', undefined, fast)
+
+		const stored = readdirSync(dir).map((file) => readFileSync(join(dir, file), 'utf-8'))
+		expect(stored.join('\n')).not.toMatch(/session|other|realcrumb/)
+
+		// Yahoo needs some cookie before it hands out a crumb, so a masked one is replayed
+		setFetch(createReplayFetch(dir))
+		const yahoo = await httpFetch('https://query1.finance.yahoo.com/v1/test/getcrumb', undefined, fast)
+		expect(yahoo.headers.getSetCookie()).toEqual(['A3=***; Domain=.yahoo.com; Secure', 'B=***; Path=/'])
+		const finnhub = await httpFetch('https://finnhub.io/api/v1/quote?symbol=AAPL', undefined, fast)
+		expect(finnhub.headers.getSetCookie()).toEqual([])
+	})
+
+	it('matches time windows by their length, so recordings replay on later days', async () => {
+		vi.stubGlobal('fetch', vi.fn(async () => Response.json({ s: 'ok' })))
+		setFetch(createRecordingFetch(dir))
+		const day = 86_400
+		const now = 1_792_437_560
+		await httpFetch(`https://finnhub.io/api/v1/stock/candle?symbol=AAPL&from=${now - 5 * day}&to=${now}`, undefined, fast)
+		await httpFetch(
+			`https://query2.finance.yahoo.com/v8/finance/chart/AAPL?period1=${now - 5 * day}&period2=${now}`,
+			undefined,
+			fast,
+		)
+
+		setFetch(createReplayFetch(dir))
+		const later = now + 3 * day + 1234
+		const candles = await httpFetch(
+			`https://finnhub.io/api/v1/stock/candle?symbol=AAPL&from=${later - 5 * day}&to=${later}`,
+			undefined,
+			fast,
+		)
+		expect(await candles.json()).toEqual({ s: 'ok' })
+		const chart = await httpFetch(
+			`https://query2.finance.yahoo.com/v8/finance/chart/AAPL?period1=${later - 5 * day}&period2=${later}`,
+			undefined,
+			fast,
+		)
+		expect(chart.status).toBe(200)
+		// A window of a different length is a different request
+		await expect(
+			httpFetch(
+				`https://query2.finance.yahoo.com/v8/finance/chart/AAPL?period1=${later - 30 * day}&period2=${later}`,
+				undefined,
+				fast,
+			),
+		).rejects.toThrow(NetworkError)
+	})
+
+	it('fails a replay miss at once with a NetworkError', async () => {
+		setFetch(createReplayFetch(dir))
+		const err = await httpFetch('https://finnhub.io/api/v1/quote?symbol=MSFT', undefined, fast).catch((e) => e)
+		expect(err).toBeInstanceOf(NetworkError)
+		expect(err.message).toMatch(/No recorded response for GET https:\/\/finnhub\.io\/api\/v1\/quote\?symbol=MSFT/)
+	})
+
+	it('rejects a missing replay directory', () => {
+		expect(() => createReplayFetch(join(dir, 'nope'))).toThrow(/Replay directory not found/)
+	})
+})
+
+describe('contracts: upstream payloads', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals()
+	})
+
+	it('reports where a payload departs from the expected shape', async () => {
+		const { z } = await import('zod')
+		const schema = z.object({ price: z.number(), symbol: z.string() })
+		expect(parseUpstream(schema, { price: 1, symbol: 'X', extra: true }, { source: 's', what: 'quote' })).toEqual({
+			price: 1,
+			symbol: 'X',
+		})
+		try {
+			parseUpstream(schema, { symbol: 1 }, { source: 's', what: 'quote' })
+			expect.unreachable()
+		} catch (err) {
+			expect(err).toBeInstanceOf(UpstreamSchemaError)
+			expect(err).toBeInstanceOf(UpstreamError)
+			expect(exitCodeFor(err)).toBe(6)
+			const e = err as UpstreamSchemaError
+			expect(e.source).toBe('s')
+			expect(e.issues).toEqual(['price: Required', 'symbol: Expected string, received number'])
+			expect(e.message).toBe(
+				'[s] Unexpected quote response: price: Required; symbol: Expected string, received number',
+			)
+		}
+	})
+
+	it('rejects a changed upstream response instead of returning zeros', async () => {
+		const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 })
+		vi.stubGlobal(
+			'fetch',
+			vi
+				.fn()
+				.mockResolvedValueOnce(json([[1_700_000_000_000, '1.5', '2', '1', '1.8', '100']]))
+				.mockResolvedValueOnce(json([{ openTime: 1_700_000_000_000, open: '1.5' }])),
+		)
+		const ok = await binance.execute<{ open: number }[]>('crypto', 'history', { symbol: 'BTC' })
+		expect(ok.data[0]).toMatchObject({ open: 1.5, close: 1.8, volume: 100 })
+		await expect(binance.execute('crypto', 'history', { symbol: 'BTC' })).rejects.toThrow(
+			/\[binance\] Unexpected klines response: 0: Expected array, received object/,
+		)
+	})
+})
+
 describe('formatter', () => {
 	it('formats markdown tables', () => {
 		const result = formatTable(['Name', 'Value'], [['AAPL', '100']], 'markdown')
@@ -72,6 +762,76 @@ describe('formatter', () => {
 		expect(parsed).toEqual([{ Name: 'AAPL', Value: '100' }])
 	})
 
+	it('formats CSV tables with RFC 4180 quoting and raw numbers', () => {
+		const result = formatTable(
+			['Form', 'Description', 'Price', 'Volume'],
+			[
+				['8-K', 'Results, "Q4"\tand\nguidance', numeric(1234.5, formatCurrency), numeric(12_500_000, formatNumber)],
+				['10-K', undefined, 7, numeric(undefined, formatNumber)],
+			],
+			'csv',
+		)
+		expect(result).toBe(
+			'Form,Description,Price,Volume\n8-K,"Results, ""Q4""\tand\nguidance",1234.5,12500000\n10-K,,7,',
+		)
+	})
+
+	it('shows numeric cells formatted everywhere but CSV', () => {
+		const rows = [[numeric(1234.5, formatCurrency)]]
+		expect(JSON.parse(formatTable(['Price'], rows, 'json'))).toEqual([{ Price: '$1,234.50' }])
+		expect(formatTable(['Price'], rows, 'plain')).toBe('Price\n$1,234.50')
+		expect(formatTable(['Price'], rows, 'markdown')).toContain('| $1,234.50 |')
+	})
+
+	it('formats key-value pairs as a one-record CSV', () => {
+		const data = { Symbol: 'AAPL', Price: numeric(189.5, formatCurrency), Open: undefined }
+		expect(formatKeyValue(data, 'csv')).toBe('Symbol,Price,Open\nAAPL,189.5,')
+		expect(JSON.parse(formatKeyValue(data, 'json'))).toEqual({ Symbol: 'AAPL', Price: '$189.50' })
+	})
+
+	it('wraps results in a JSON envelope dated by the upstream fetch', () => {
+		const now = Date.parse('2026-01-02T00:00:00Z')
+		expect(toEnvelope({ data: { price: 189.5 }, source: 'yahoo', cached: false }, now)).toEqual({
+			data: { price: 189.5 },
+			source: 'yahoo',
+			cached: false,
+			fetchedAt: '2026-01-02T00:00:00.000Z',
+		})
+		const cachedAt = Date.parse('2026-01-01T12:00:00Z')
+		expect(
+			toEnvelope({ data: [], source: 'fred', cached: true, cachedAt, stale: true }, now),
+		).toEqual({ data: [], source: 'fred', cached: true, fetchedAt: '2026-01-01T12:00:00.000Z', stale: true })
+	})
+
+	it('streams rows as NDJSON, waiting out backpressure', async () => {
+		const lines: string[] = []
+		// Room for one chunk at a time, flushed asynchronously, so every write reports backpressure
+		const out = new Writable({
+			highWaterMark: 1,
+			write(chunk, _encoding, done) {
+				lines.push(String(chunk))
+				setImmediate(done)
+			},
+		})
+		async function* rows() {
+			yield { date: '2025-01-30', close: 104.74 }
+			yield { date: '2025-01-31', close: 106.31, note: 'a "quoted"\nline' }
+		}
+		await writeNdjson(rows(), out)
+		expect(lines).toEqual([
+			'{"date":"2025-01-30","close":104.74}\n',
+			'{"date":"2025-01-31","close":106.31,"note":"a \\"quoted\\"\\nline"}\n',
+		])
+	})
+
+	it('formats tables and key-value pairs as NDJSON records', () => {
+		const rows = [['AAPL', numeric(189.5, formatCurrency)], ['MSFT', undefined]]
+		expect(formatTable(['Symbol', 'Price'], rows, 'ndjson')).toBe(
+			'{"Symbol":"AAPL","Price":"$189.50"}\n{"Symbol":"MSFT","Price":null}',
+		)
+		expect(formatKeyValue({ Symbol: 'AAPL' }, 'ndjson')).toBe('{"Symbol":"AAPL"}')
+	})
+
 	it('formats plain tables', () => {
 		const result = formatTable(['Name', 'Value'], [['AAPL', '100']], 'plain')
 		expect(result).toContain('Name\tValue')
@@ -95,6 +855,22 @@ describe('formatter', () => {
 		expect(formatCurrency(1234.56)).toBe('$1,234.56')
 	})
 
+	it('formats durations', () => {
+		expect(formatDuration(0)).toBe('0s')
+		expect(formatDuration(90_000)).toBe('1m 30s')
+		expect(formatDuration(3_600_000)).toBe('1h')
+		expect(formatDuration(93_600_000)).toBe('1d 2h')
+	})
+
+	it('formats source with cache status and stale age', () => {
+		expect(formatSource({ source: 'yahoo', cached: false })).toBe('yahoo')
+		expect(formatSource({ source: 'yahoo', cached: true })).toBe('yahoo (cached)')
+		const cachedAt = Date.now() - 7_200_000
+		expect(formatSource({ source: 'yahoo', cached: true, stale: true, cachedAt })).toBe(
+			'yahoo (cached, stale — fetched 2h ago)',
+		)
+	})
+
 	it('formats percentages', () => {
 		expect(formatPercent(3.14)).toBe('+3.14%')
 		expect(formatPercent(-2.5)).toBe('-2.50%')
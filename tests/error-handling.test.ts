@@ -1,4 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import {
 	canRequest,
 	consumeToken,
@@ -82,7 +85,7 @@ describe('router: fallback behavior', () => {
 	// We re-import the router module fresh for each describe block so the
 	// module-level providers array starts clean.
 	let registerProvider: typeof import('../src/core/router.js').registerProvider
-	let route: typeof import('../src/core/router.js').route
+	let routeUntyped: typeof import('../src/core/router.js').routeUntyped
 	let getProviders: typeof import('../src/core/router.js').getProviders
 
 	beforeEach(async () => {
@@ -90,7 +93,7 @@ describe('router: fallback behavior', () => {
 		cache.clear()
 		const mod = await import('../src/core/router.js')
 		registerProvider = mod.registerProvider
-		route = mod.route
+		routeUntyped = mod.routeUntyped
 		getProviders = mod.getProviders
 	})
 
@@ -112,7 +115,7 @@ describe('router: fallback behavior', () => {
 		registerProvider(failProvider)
 		registerProvider(okProvider)
 
-		const result = await route('quote', 'price', { symbol: 'AAPL' })
+		const result = await routeUntyped('quote', 'price', { symbol: 'AAPL' })
 		expect(result.source).toBe('ok-provider')
 		expect(result.data).toEqual({ price: 99 })
 	})
@@ -130,7 +133,7 @@ describe('router: fallback behavior', () => {
 		registerProvider(p1)
 		registerProvider(p2)
 
-		await expect(route('quote', 'price', { symbol: 'AAPL' })).rejects.toThrow(
+		await expect(routeUntyped('quote', 'price', { symbol: 'AAPL' })).rejects.toThrow(
 			/All providers failed/,
 		)
 	})
@@ -138,14 +141,14 @@ describe('router: fallback behavior', () => {
 
 describe('router: --source flag', () => {
 	let registerProvider: typeof import('../src/core/router.js').registerProvider
-	let route: typeof import('../src/core/router.js').route
+	let routeUntyped: typeof import('../src/core/router.js').routeUntyped
 
 	beforeEach(async () => {
 		vi.resetModules()
 		cache.clear()
 		const mod = await import('../src/core/router.js')
 		registerProvider = mod.registerProvider
-		route = mod.route
+		routeUntyped = mod.routeUntyped
 	})
 
 	it('uses only the specified source when --source is set', async () => {
@@ -165,7 +168,7 @@ describe('router: --source flag', () => {
 		registerProvider(alpha)
 		registerProvider(beta)
 
-		const result = await route('quote', 'price', { symbol: 'X' }, { source: 'beta' })
+		const result = await routeUntyped('quote', 'price', { symbol: 'X' }, { source: 'beta' })
 		expect(result.source).toBe('beta')
 		expect(result.data).toEqual({ origin: 'beta' })
 	})
@@ -178,38 +181,38 @@ describe('router: --source flag', () => {
 		registerProvider(alpha)
 
 		await expect(
-			route('quote', 'price', { symbol: 'X' }, { source: 'nonexistent' }),
+			routeUntyped('quote', 'price', { symbol: 'X' }, { source: 'nonexistent' }),
 		).rejects.toThrow(/Source "nonexistent" not available/)
 	})
 })
 
 describe('router: no providers', () => {
-	let route: typeof import('../src/core/router.js').route
+	let routeUntyped: typeof import('../src/core/router.js').routeUntyped
 
 	beforeEach(async () => {
 		vi.resetModules()
 		cache.clear()
 		const mod = await import('../src/core/router.js')
-		route = mod.route
+		routeUntyped = mod.routeUntyped
 	})
 
 	it('throws when no providers are registered for a category', async () => {
 		await expect(
-			route('quote', 'price', { symbol: 'X' }),
+			routeUntyped('quote', 'price', { symbol: 'X' }),
 		).rejects.toThrow(/No providers available/)
 	})
 })
 
 describe('router: caching', () => {
 	let registerProvider: typeof import('../src/core/router.js').registerProvider
-	let route: typeof import('../src/core/router.js').route
+	let routeUntyped: typeof import('../src/core/router.js').routeUntyped
 
 	beforeEach(async () => {
 		vi.resetModules()
 		cache.clear()
 		const mod = await import('../src/core/router.js')
 		registerProvider = mod.registerProvider
-		route = mod.route
+		routeUntyped = mod.routeUntyped
 	})
 
 	it('returns cached result without calling provider execute a second time', async () => {
@@ -222,12 +225,12 @@ describe('router: caching', () => {
 		})
 		registerProvider(provider)
 
-		const first = await route('quote', 'price', { symbol: 'AAPL' })
+		const first = await routeUntyped('quote', 'price', { symbol: 'AAPL' })
 		expect(first.data).toEqual({ price: 200 })
 		expect(first.cached).toBe(false)
 		expect(executeSpy).toHaveBeenCalledTimes(1)
 
-		const second = await route('quote', 'price', { symbol: 'AAPL' })
+		const second = await routeUntyped('quote', 'price', { symbol: 'AAPL' })
 		expect(second.data).toEqual({ price: 200 })
 		expect(second.cached).toBe(true)
 		expect(second.source).toBe('spy-provider')
@@ -245,12 +248,1055 @@ describe('router: caching', () => {
 		})
 		registerProvider(provider)
 
-		await route('quote', 'price', { symbol: 'AAPL' })
-		await route('quote', 'price', { symbol: 'AAPL' }, { noCache: true })
+		await routeUntyped('quote', 'price', { symbol: 'AAPL' })
+		await routeUntyped('quote', 'price', { symbol: 'AAPL' }, { noCache: true })
 		expect(executeSpy).toHaveBeenCalledTimes(2)
 	})
 })
 
+describe('router: stale-if-error', () => {
+	let registerProvider: typeof import('../src/core/router.js').registerProvider
+	let routeUntyped: typeof import('../src/core/router.js').routeUntyped
+
+	beforeEach(async () => {
+		vi.resetModules()
+		const mod = await import('../src/core/router.js')
+		registerProvider = mod.registerProvider
+		routeUntyped = mod.routeUntyped
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	function registerFlaky() {
+		let down = false
+		registerProvider(
+			createMockProvider({
+				name: 'flaky',
+				execute: async <T>() => {
+					if (down) throw new Error('API down')
+					return { data: { price: 10 } as unknown as T, source: 'flaky', cached: false }
+				},
+			}),
+		)
+		return { goDown: () => { down = true } }
+	}
+
+	it('serves an expired entry marked stale when every provider fails', async () => {
+		const flaky = registerFlaky()
+		await routeUntyped('quote', 'price', { symbol: 'AAPL' })
+		flaky.goDown()
+		vi.advanceTimersByTime(45_000) // 15s past the 30s quote TTL
+
+		const result = await routeUntyped('quote', 'price', { symbol: 'AAPL' }, { staleIfError: 60_000 })
+		expect(result).toMatchObject({ data: { price: 10 }, source: 'flaky', cached: true, stale: true })
+		expect(Date.now() - (result.cachedAt ?? 0)).toBe(45_000)
+	})
+
+	it('does not serve stale data unless opted in', async () => {
+		const flaky = registerFlaky()
+		await routeUntyped('quote', 'price', { symbol: 'AAPL' })
+		flaky.goDown()
+		vi.advanceTimersByTime(45_000)
+
+		await expect(routeUntyped('quote', 'price', { symbol: 'AAPL' })).rejects.toThrow(/All providers failed/)
+	})
+
+	it('ignores entries older than the maximum stale age', async () => {
+		const flaky = registerFlaky()
+		await routeUntyped('quote', 'price', { symbol: 'AAPL' })
+		flaky.goDown()
+		vi.advanceTimersByTime(30_000 + 60_001)
+
+		await expect(
+			routeUntyped('quote', 'price', { symbol: 'AAPL' }, { staleIfError: 60_000 }),
+		).rejects.toThrow(/All providers failed/)
+	})
+})
+
+describe('router: circuit breaker', () => {
+	let registerProvider: typeof import('../src/core/router.js').registerProvider
+	let routeUntyped: typeof import('../src/core/router.js').routeUntyped
+	let breaker: typeof import('../src/core/circuit-breaker.js')
+
+	beforeEach(async () => {
+		vi.resetModules()
+		const mod = await import('../src/core/router.js')
+		registerProvider = mod.registerProvider
+		routeUntyped = mod.routeUntyped
+		breaker = await import('../src/core/circuit-breaker.js')
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	function setup() {
+		let healthy = false
+		const failingSpy = vi.fn(async <T>() => {
+			if (!healthy) throw new Error('API down')
+			return { data: { from: 'primary' } as unknown as T, source: 'primary', cached: false }
+		})
+		registerProvider(createMockProvider({ name: 'primary', priority: { quote: 1 }, execute: failingSpy }))
+		registerProvider(
+			createMockProvider({
+				name: 'backup',
+				priority: { quote: 2 },
+				execute: async <T>() =>
+					({ data: { from: 'backup' } as unknown as T, source: 'backup', cached: false }) as ProviderResult<T>,
+			}),
+		)
+		return { failingSpy, recover: () => { healthy = true } }
+	}
+
+	it('skips a provider after three consecutive failures', async () => {
+		const { failingSpy } = setup()
+		for (let i = 0; i < 3; i++) {
+			await routeUntyped('quote', 'price', { symbol: `S${i}` }, { noCache: true })
+		}
+		expect(failingSpy).toHaveBeenCalledTimes(3)
+		expect(breaker.getBreakerState('primary', 'quote')).toBe('open')
+
+		const result = await routeUntyped('quote', 'price', { symbol: 'X' }, { noCache: true })
+		expect(result.source).toBe('backup')
+		expect(failingSpy).toHaveBeenCalledTimes(3)
+	})
+
+	it('lets a single trial through after the cooldown and closes on success', async () => {
+		const { failingSpy, recover } = setup()
+		for (let i = 0; i < 3; i++) {
+			await routeUntyped('quote', 'price', { symbol: 'X' }, { noCache: true })
+		}
+		vi.advanceTimersByTime(60_000)
+		expect(breaker.getBreakerState('primary', 'quote')).toBe('half-open')
+
+		recover()
+		const result = await routeUntyped('quote', 'price', { symbol: 'X' }, { noCache: true })
+		expect(result.source).toBe('primary')
+		expect(failingSpy).toHaveBeenCalledTimes(4)
+		expect(breaker.getBreakerState('primary', 'quote')).toBe('closed')
+	})
+
+	it('re-opens immediately when the trial request fails', async () => {
+		setup()
+		for (let i = 0; i < 3; i++) {
+			await routeUntyped('quote', 'price', { symbol: 'X' }, { noCache: true })
+		}
+		vi.advanceTimersByTime(60_000)
+		await routeUntyped('quote', 'price', { symbol: 'X' }, { noCache: true })
+		expect(breaker.getBreakerState('primary', 'quote')).toBe('open')
+	})
+
+	it("doesn't count requests our own rate limiter refused", async () => {
+		const { RateLimitError } = await import('../src/core/errors.js')
+		registerProvider(
+			createMockProvider({
+				name: 'limited',
+				execute: async () => {
+					throw new RateLimitError('[limited] Rate limit exceeded', { source: 'limited', local: true })
+				},
+			}),
+		)
+		for (let i = 0; i < 5; i++) {
+			await routeUntyped('quote', 'price', { symbol: 'X' }, { noCache: true }).catch(() => {})
+		}
+		expect(breaker.getBreakerState('limited', 'quote')).toBe('closed')
+	})
+
+	it('tracks breakers per category', async () => {
+		setup()
+		for (let i = 0; i < 3; i++) breaker.recordFailure('primary', 'quote')
+		expect(breaker.canAttempt('primary', 'quote')).toBe(false)
+		expect(breaker.canAttempt('primary', 'history')).toBe(true)
+	})
+})
+
+describe('router: configured provider priority', () => {
+	afterEach(() => {
+		vi.doUnmock('../src/core/config.js')
+	})
+
+	it('tries sources listed in providerPriority first, then the rest in built-in order', async () => {
+		vi.resetModules()
+		vi.doMock('../src/core/config.js', async (importOriginal) => ({
+			...(await importOriginal<typeof import('../src/core/config.js')>()),
+			loadConfig: () => ({ providerPriority: { quote: ['third', 'second'] } }),
+		}))
+		const { registerProvider, getProvidersForCategory } = await import('../src/core/router.js')
+		for (const [name, priority] of [['first', 1], ['second', 2], ['third', 3], ['fourth', 4]] as const) {
+			registerProvider(
+				createMockProvider({
+					name,
+					capabilities: ['quote', 'history'],
+					priority: { quote: priority, history: priority },
+				}),
+			)
+		}
+
+		expect(getProvidersForCategory('quote').map((p) => p.name)).toEqual([
+			'third',
+			'second',
+			'first',
+			'fourth',
+		])
+		expect(getProvidersForCategory('history').map((p) => p.name)).toEqual([
+			'first',
+			'second',
+			'third',
+			'fourth',
+		])
+	})
+})
+
+describe('router: action-level capabilities', () => {
+	let registerProvider: typeof import('../src/core/router.js').registerProvider
+	let route: typeof import('../src/core/router.js').route
+	let getProvidersForCategory: typeof import('../src/core/router.js').getProvidersForCategory
+
+	beforeEach(async () => {
+		vi.resetModules()
+		const mod = await import('../src/core/router.js')
+		;({ registerProvider, route, getProvidersForCategory } = mod)
+		registerProvider(
+			createMockProvider({
+				name: 'exchange',
+				capabilities: ['crypto'],
+				priority: { crypto: 1 },
+				actions: { crypto: { quote: ['symbol'] } },
+			}),
+		)
+	})
+
+	it('only picks providers that declare the action', async () => {
+		registerProvider(
+			createMockProvider({ name: 'aggregator', capabilities: ['crypto'], priority: { crypto: 2 } }),
+		)
+		expect(getProvidersForCategory('crypto').map((p) => p.name)).toEqual(['exchange', 'aggregator'])
+		expect(getProvidersForCategory('crypto', 'quote').map((p) => p.name)).toEqual([
+			'exchange',
+			'aggregator',
+		])
+		expect(getProvidersForCategory('crypto', 'top').map((p) => p.name)).toEqual(['aggregator'])
+		const result = await route('crypto', 'top', { limit: 10 }, { noCache: true })
+		expect(result.source).toBe('aggregator')
+	})
+
+	it('says which action is unsupported when no provider declares it', async () => {
+		await expect(route('crypto', 'top', {}, { noCache: true })).rejects.toThrow(
+			'No provider supports action "top" for category "crypto"',
+		)
+	})
+})
+
+describe('router: argument contracts', () => {
+	let registerProvider: typeof import('../src/core/router.js').registerProvider
+	let route: typeof import('../src/core/router.js').route
+	let errors: typeof import('../src/core/errors.js')
+	let seen: Record<string, unknown>[]
+
+	beforeEach(async () => {
+		vi.resetModules()
+		const mod = await import('../src/core/router.js')
+		registerProvider = mod.registerProvider
+		route = mod.route
+		errors = await import('../src/core/errors.js')
+		seen = []
+		registerProvider(
+			createMockProvider({
+				name: 'recorder',
+				capabilities: ['quote', 'financials'],
+				priority: { quote: 1, financials: 1 },
+				execute: async <T>(_cat: DataCategory, _action: string, args: Record<string, unknown>) => {
+					seen.push(args)
+					return { data: [] as unknown as T, source: 'recorder', cached: false }
+				},
+			}),
+		)
+	})
+
+	it('rejects invalid args before any provider is tried', async () => {
+		const cases: [string, Record<string, unknown>, string][] = [
+			['get', {}, 'symbol: Required'],
+			['get', { symbol: '  ' }, 'symbol:'],
+			['get', { symbol: 'AAPL', sybmol: 'X' }, "Unrecognized key(s) in object: 'sybmol'"],
+		]
+		for (const [action, args, message] of cases) {
+			// Bypass the compile-time check to exercise runtime validation
+			const attempt = route('quote', action as 'get', args as { symbol: string }, { noCache: true })
+			await expect(attempt).rejects.toBeInstanceOf(errors.InvalidArgumentError)
+			await expect(attempt).rejects.toThrow(message)
+		}
+		await expect(
+			route('financials', 'get', { symbol: 'AAPL', limit: Number.NaN }, { noCache: true }),
+		).rejects.toThrow(/Invalid arguments for financials\/get: limit:/)
+		expect(seen).toEqual([])
+	})
+
+	it('passes parsed args to the provider', async () => {
+		await route('quote', 'get', { symbol: ' AAPL ' }, { noCache: true })
+		expect(seen).toEqual([{ symbol: 'AAPL' }])
+	})
+})
+
+describe('router: typed errors', () => {
+	let registerProvider: typeof import('../src/core/router.js').registerProvider
+	let routeUntyped: typeof import('../src/core/router.js').routeUntyped
+	let breaker: typeof import('../src/core/circuit-breaker.js')
+	let errors: typeof import('../src/core/errors.js')
+
+	beforeEach(async () => {
+		vi.resetModules()
+		const mod = await import('../src/core/router.js')
+		registerProvider = mod.registerProvider
+		routeUntyped = mod.routeUntyped
+		breaker = await import('../src/core/circuit-breaker.js')
+		// Same module instance as the router, so instanceof checks hold
+		errors = await import('../src/core/errors.js')
+	})
+
+	it('attaches each provider failure to AllProvidersFailedError', async () => {
+		registerProvider(
+			createMockProvider({
+				name: 'limited',
+				priority: { quote: 1 },
+				execute: async () => {
+					throw new errors.RateLimitError('[limited] Rate limit exceeded', { source: 'limited' })
+				},
+			}),
+		)
+		registerProvider(
+			createMockProvider({
+				name: 'keyless',
+				priority: { quote: 2 },
+				execute: async () => {
+					throw new errors.AuthError('[keyless] API key not set', { source: 'keyless' })
+				},
+			}),
+		)
+
+		const err = await routeUntyped('quote', 'price', { symbol: 'AAPL' }, { noCache: true }).catch((e) => e)
+		expect(err).toBeInstanceOf(errors.AllProvidersFailedError)
+		expect(err.message).toMatch(/All providers failed/)
+		expect(err.causes.map((c: { source: string }) => c.source)).toEqual(['limited', 'keyless'])
+		expect(err.causes[0].error).toBeInstanceOf(errors.RateLimitError)
+		expect(err.causes[1].error).toBeInstanceOf(errors.AuthError)
+	})
+
+	it('stops falling back on a definitive not-found', async () => {
+		const backup = vi.fn(async <T>() => ({ data: {} as T, source: 'backup', cached: false }))
+		registerProvider(
+			createMockProvider({
+				name: 'primary',
+				priority: { quote: 1 },
+				execute: async () => {
+					throw new errors.SymbolNotFoundError('Symbol "NOPE" not found', {
+						symbol: 'NOPE',
+						definitive: true,
+					})
+				},
+			}),
+		)
+		registerProvider(createMockProvider({ name: 'backup', priority: { quote: 2 }, execute: backup }))
+
+		await expect(routeUntyped('quote', 'price', { symbol: 'NOPE' }, { noCache: true })).rejects.toBeInstanceOf(
+			errors.SymbolNotFoundError,
+		)
+		expect(backup).not.toHaveBeenCalled()
+	})
+
+	it('falls back on a non-definitive not-found without tripping the breaker', async () => {
+		registerProvider(
+			createMockProvider({
+				name: 'primary',
+				priority: { quote: 1 },
+				execute: async () => {
+					throw new errors.SymbolNotFoundError('No data for "X"', { symbol: 'X' })
+				},
+			}),
+		)
+		registerProvider(createMockProvider({ name: 'backup', priority: { quote: 2 } }))
+
+		for (let i = 0; i < 3; i++) {
+			const result = await routeUntyped('quote', 'price', { symbol: 'X' }, { noCache: true })
+			expect(result.source).toBe('backup')
+		}
+		expect(breaker.getBreakerState('primary', 'quote')).toBe('closed')
+	})
+
+	it('falls back when a provider gets a response of unexpected shape', async () => {
+		registerProvider(
+			createMockProvider({
+				name: 'primary',
+				priority: { quote: 1 },
+				execute: async () => {
+					throw new errors.UpstreamSchemaError('[primary] Unexpected quote response: price: Required', {
+						issues: ['price: Required'],
+						source: 'primary',
+					})
+				},
+			}),
+		)
+		registerProvider(createMockProvider({ name: 'backup', priority: { quote: 2 } }))
+
+		const result = await routeUntyped('quote', 'price', { symbol: 'AAPL' }, { noCache: true })
+		expect(result.source).toBe('backup')
+	})
+
+	it('throws NoProviderError when nothing can serve the category', async () => {
+		await expect(routeUntyped('macro', 'get', { seriesId: 'GDP' })).rejects.toBeInstanceOf(
+			errors.NoProviderError,
+		)
+	})
+})
+
+describe('router: tracing', () => {
+	let registerProvider: typeof import('../src/core/router.js').registerProvider
+	let route: typeof import('../src/core/router.js').route
+	let trace: typeof import('../src/core/trace.js')
+
+	beforeEach(async () => {
+		vi.resetModules()
+		cache.clear()
+		const mod = await import('../src/core/router.js')
+		registerProvider = mod.registerProvider
+		route = mod.route
+		trace = await import('../src/core/trace.js')
+	})
+
+	it('emits cache, attempt and outcome events for each provider tried', async () => {
+		registerProvider(
+			createMockProvider({
+				name: 'flaky',
+				priority: { quote: 1 },
+				execute: async () => {
+					throw new Error('API down')
+				},
+			}),
+		)
+		registerProvider(createMockProvider({ name: 'steady', priority: { quote: 2 } }))
+
+		const events: import('../src/core/trace.js').TraceEvent[] = []
+		const unsubscribe = trace.onTrace((e) => events.push(e))
+		await route('quote', 'get', { symbol: 'TRACE' })
+		await route('quote', 'get', { symbol: 'TRACE' })
+		unsubscribe()
+
+		const summary = events.map((e) => [e.requestId, e.kind, e.provider])
+		const [first, second] = [summary[0][0], summary.at(-1)?.[0]]
+		expect(summary).toEqual([
+			[first, 'route', undefined],
+			[first, 'cache', undefined],
+			[first, 'attempt', 'flaky'],
+			[first, 'failure', 'flaky'],
+			[first, 'attempt', 'steady'],
+			[first, 'success', 'steady'],
+			[first, 'done', 'steady'],
+			[second, 'route', undefined],
+			[second, 'cache', 'steady'],
+			[second, 'done', 'steady'],
+		])
+		expect(second).not.toBe(first)
+		expect(events[3]).toMatchObject({ category: 'quote', action: 'get', error: 'API down' })
+		expect(events.at(-1)).toMatchObject({ kind: 'done', ok: true, cached: true })
+	})
+})
+
+describe('router: in-flight coalescing', () => {
+	let registerProvider: typeof import('../src/core/router.js').registerProvider
+	let route: typeof import('../src/core/router.js').route
+	let freshCache: typeof import('../src/core/cache.js')
+
+	beforeEach(async () => {
+		vi.resetModules()
+		const mod = await import('../src/core/router.js')
+		registerProvider = mod.registerProvider
+		route = mod.route
+		freshCache = await import('../src/core/cache.js')
+		freshCache.clear()
+		freshCache.resetStats()
+	})
+
+	it('shares one provider call between concurrent identical requests', async () => {
+		let calls = 0
+		registerProvider(
+			createMockProvider({
+				name: 'slow',
+				execute: async <T>() => {
+					calls++
+					await new Promise((r) => setTimeout(r, 10))
+					return { data: { price: 1 } as unknown as T, source: 'slow', cached: false }
+				},
+			}),
+		)
+		const trace = await import('../src/core/trace.js')
+		const kinds: string[] = []
+		const unsubscribe = trace.onTrace((e) => kinds.push(e.kind))
+		const results = await Promise.all([
+			route('quote', 'get', { symbol: 'DUP' }, { noCache: true }),
+			route('quote', 'get', { symbol: 'DUP' }, { noCache: true }),
+			route('quote', 'get', { symbol: 'OTHER' }, { noCache: true }),
+		])
+		unsubscribe()
+
+		expect(calls).toBe(2)
+		expect(results.map((r) => r.data)).toEqual([{ price: 1 }, { price: 1 }, { price: 1 }])
+		expect(kinds.filter((k) => k === 'attempt')).toHaveLength(2)
+		expect(kinds.filter((k) => k === 'coalesced')).toHaveLength(1)
+		expect(freshCache.getStats()).toEqual([
+			{ provider: 'slow', category: 'quote', hits: 0, misses: 0, coalesced: 1 },
+		])
+
+		// Once settled, the next identical call goes upstream again
+		await route('quote', 'get', { symbol: 'DUP' }, { noCache: true })
+		expect(calls).toBe(3)
+	})
+
+	it('propagates a shared failure to every caller', async () => {
+		let calls = 0
+		registerProvider(
+			createMockProvider({
+				name: 'down',
+				execute: async () => {
+					calls++
+					await new Promise((r) => setTimeout(r, 10))
+					throw new Error('API down')
+				},
+			}),
+		)
+		const results = await Promise.allSettled([
+			route('quote', 'get', { symbol: 'DUP' }),
+			route('quote', 'get', { symbol: 'DUP' }),
+		])
+		expect(calls).toBe(1)
+		expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected'])
+	})
+})
+
+describe('router: timeouts and cancellation', () => {
+	let errors: typeof import('../src/core/errors.js')
+
+	afterEach(() => {
+		vi.doUnmock('../src/core/config.js')
+	})
+
+	async function setup(config: Record<string, unknown> = {}) {
+		vi.resetModules()
+		vi.doMock('../src/core/config.js', async (importOriginal) => ({
+			...(await importOriginal<typeof import('../src/core/config.js')>()),
+			loadConfig: () => config,
+		}))
+		errors = await import('../src/core/errors.js')
+		return import('../src/core/router.js')
+	}
+
+	// Never settles and ignores the signal, like a connection that hangs
+	const hang = () => new Promise<never>(() => {})
+	const backupResult = async <T>() => ({ data: { price: 1 } as T, source: 'backup', cached: false })
+
+	it('moves on to the next source when an attempt times out', async () => {
+		const { registerProvider, route } = await setup()
+		let seen: AbortSignal | undefined
+		registerProvider(
+			createMockProvider({
+				name: 'hung',
+				priority: { quote: 1 },
+				execute: (_c, _a, _args, options) => {
+					seen = options?.signal
+					return hang()
+				},
+			}),
+		)
+		registerProvider(createMockProvider({ name: 'backup', priority: { quote: 2 }, execute: backupResult }))
+
+		const result = await route('quote', 'get', { symbol: 'AAPL' }, { noCache: true, timeout: 20 })
+		expect(result.source).toBe('backup')
+		// The hung attempt was told to stop
+		expect(seen?.aborted).toBe(true)
+		expect(seen?.reason).toBeInstanceOf(errors.TimeoutError)
+	})
+
+	it('reports a TimeoutError when every source times out', async () => {
+		const { registerProvider, route } = await setup()
+		registerProvider(createMockProvider({ name: 'hung', execute: hang }))
+
+		const err = await route('quote', 'get', { symbol: 'AAPL' }, { noCache: true, timeout: 10 }).catch(
+			(e) => e,
+		)
+		expect(err).toBeInstanceOf(errors.AllProvidersFailedError)
+		expect(err.causes[0].error).toBeInstanceOf(errors.TimeoutError)
+		expect(err.causes[0].error.message).toBe('[hung] No response within 10ms')
+		expect(errors.exitCodeFor(err.causes[0].error)).toBe(errors.EXIT_CODES.network)
+	})
+
+	it('uses the configured per-source timeout, falling back to "*"', async () => {
+		const { registerProvider, route } = await setup({ timeouts: { hung: '15ms', '*': '1h' } })
+		registerProvider(createMockProvider({ name: 'hung', priority: { quote: 1 }, execute: hang }))
+		registerProvider(createMockProvider({ name: 'backup', priority: { quote: 2 }, execute: backupResult }))
+
+		const started = Date.now()
+		const result = await route('quote', 'get', { symbol: 'AAPL' }, { noCache: true })
+		expect(result.source).toBe('backup')
+		expect(Date.now() - started).toBeLessThan(1000)
+	})
+
+	it('stops without trying other sources when the caller aborts', async () => {
+		const { registerProvider, route } = await setup()
+		const backup = vi.fn(backupResult)
+		registerProvider(createMockProvider({ name: 'hung', priority: { quote: 1 }, execute: hang }))
+		registerProvider(createMockProvider({ name: 'backup', priority: { quote: 2 }, execute: backup }))
+
+		const controller = new AbortController()
+		const pending = route('quote', 'get', { symbol: 'AAPL' }, { noCache: true, signal: controller.signal })
+		setTimeout(() => controller.abort(new Error('user cancelled')), 10)
+		await expect(pending).rejects.toThrow('user cancelled')
+		expect(backup).not.toHaveBeenCalled()
+	})
+
+	it('cancels HTTP calls made during the attempt', async () => {
+		const { registerProvider, route } = await setup()
+		const { httpFetch } = await import('../src/core/http.js')
+		let aborted = false
+		vi.stubGlobal('fetch', (_input: unknown, init?: RequestInit) => {
+			return new Promise((_, reject) => {
+				init?.signal?.addEventListener('abort', () => {
+					aborted = true
+					reject(init.signal?.reason)
+				})
+			})
+		})
+		registerProvider(
+			createMockProvider({
+				name: 'http',
+				priority: { quote: 1 },
+				execute: async () => {
+					await httpFetch('https://example.com/slow')
+					throw new Error('unreachable')
+				},
+			}),
+		)
+		registerProvider(createMockProvider({ name: 'backup', priority: { quote: 2 }, execute: backupResult }))
+
+		const result = await route('quote', 'get', { symbol: 'AAPL' }, { noCache: true, timeout: 20 })
+		vi.unstubAllGlobals()
+		expect(result.source).toBe('backup')
+		expect(aborted).toBe(true)
+	})
+
+	it("keeps a shared request going for joiners when the first caller cancels", async () => {
+		const { registerProvider, route } = await setup()
+		const execute = vi.fn(async <T>(_c: string, _a: string, _args: unknown, options?: { signal?: AbortSignal }) => {
+			await new Promise((resolve) => setTimeout(resolve, 30))
+			options?.signal?.throwIfAborted()
+			return { data: { price: 7 } as T, source: 'slow', cached: false }
+		})
+		registerProvider(createMockProvider({ name: 'slow', execute }))
+
+		const controller = new AbortController()
+		const first = route('quote', 'get', { symbol: 'AAPL' }, { noCache: true, signal: controller.signal })
+		const joiner = route('quote', 'get', { symbol: 'AAPL' }, { noCache: true })
+		setTimeout(() => controller.abort(new Error('user cancelled')), 5)
+
+		await expect(first).rejects.toThrow('user cancelled')
+		await expect(joiner).resolves.toMatchObject({ data: { price: 7 } })
+		expect(execute).toHaveBeenCalledTimes(1)
+	})
+
+	it("applies each caller's own timeout to a shared request", async () => {
+		const { registerProvider, route } = await setup()
+		registerProvider(
+			createMockProvider({
+				name: 'slow',
+				execute: async <T>() => {
+					await new Promise((resolve) => setTimeout(resolve, 60))
+					return { data: { price: 7 } as T, source: 'slow', cached: false }
+				},
+			}),
+		)
+
+		const first = route('quote', 'get', { symbol: 'AAPL' }, { noCache: true, timeout: 10 })
+		const joiner = route('quote', 'get', { symbol: 'AAPL' }, { noCache: true, timeout: 5000 })
+		await expect(first).rejects.toThrow('No response within 10ms')
+		await expect(joiner).resolves.toMatchObject({ data: { price: 7 } })
+	})
+
+	it('counts a shared request that times out as one failure, however many callers waited', async () => {
+		const { registerProvider, route } = await setup()
+		const breaker = await import('../src/core/circuit-breaker.js')
+		registerProvider(createMockProvider({ name: 'hung', execute: hang }))
+
+		const failures = await Promise.all(
+			Array.from({ length: 3 }, () =>
+				route('quote', 'get', { symbol: 'AAPL' }, { noCache: true, timeout: 10 }).catch((e) => e),
+			),
+		)
+		expect(failures.every((e) => e instanceof errors.AllProvidersFailedError)).toBe(true)
+		expect(breaker.getBreakerStatus('hung')).toEqual([{ category: 'quote', state: 'closed', failures: 1 }])
+	})
+})
+
+describe('router: routeMany', () => {
+	let registerProvider: typeof import('../src/core/router.js').registerProvider
+	let routeMany: typeof import('../src/core/router.js').routeMany
+	let errors: typeof import('../src/core/errors.js')
+
+	beforeEach(async () => {
+		vi.resetModules()
+		const mod = await import('../src/core/router.js')
+		registerProvider = mod.registerProvider
+		routeMany = mod.routeMany
+		errors = await import('../src/core/errors.js')
+		const freshCache = await import('../src/core/cache.js')
+		freshCache.clear()
+	})
+
+	const symbols = (...list: string[]) => list.map((symbol) => ({ symbol }))
+
+	it('sends the requests in one native batch call and caches each result', async () => {
+		const execute = vi.fn()
+		const executeBatch = vi.fn(async <T>(_c: DataCategory, _a: string, argsList: Record<string, unknown>[]) =>
+			argsList.map((args) => ({ data: { symbol: args.symbol } as T, source: 'batcher', cached: false })),
+		)
+		registerProvider(createMockProvider({ name: 'batcher', execute, executeBatch }))
+
+		const items = await routeMany('quote', 'get', symbols('AAPL', 'MSFT', 'GOOGL'))
+		expect(executeBatch).toHaveBeenCalledTimes(1)
+		expect(executeBatch.mock.calls[0][2]).toEqual(symbols('AAPL', 'MSFT', 'GOOGL'))
+		expect(execute).not.toHaveBeenCalled()
+		expect(items.map((i) => i.ok && i.result.data.symbol)).toEqual(['AAPL', 'MSFT', 'GOOGL'])
+
+		// Cached items are served without a call; a lone miss goes through route()
+		execute.mockImplementation(async () => ({ data: { symbol: 'TSLA' }, source: 'batcher', cached: false }))
+		const again = await routeMany('quote', 'get', symbols('AAPL', 'TSLA'))
+		expect(executeBatch).toHaveBeenCalledTimes(1)
+		expect(execute).toHaveBeenCalledTimes(1)
+		expect(again.map((i) => i.ok && i.result.cached)).toEqual([true, false])
+	})
+
+	it('reports per-item failures without failing the batch', async () => {
+		registerProvider(
+			createMockProvider({
+				name: 'batcher',
+				priority: { quote: 1 },
+				execute: async () => {
+					throw new Error('single lookups down')
+				},
+				executeBatch: async <T>(_c: DataCategory, _a: string, argsList: Record<string, unknown>[]) =>
+					argsList.map((args) => {
+						if (args.symbol === 'NOPE') {
+							return new errors.SymbolNotFoundError('Symbol "NOPE" not found', {
+								symbol: 'NOPE',
+								definitive: true,
+							})
+						}
+						if (args.symbol === 'ODD') return new errors.UpstreamSchemaError('odd payload', { issues: ['price: Required'] })
+						return { data: { symbol: args.symbol } as T, source: 'batcher', cached: false }
+					}),
+			}),
+		)
+		const backup = vi.fn(async <T>() => ({ data: { symbol: 'ODD' } as T, source: 'backup', cached: false }))
+		registerProvider(createMockProvider({ name: 'backup', priority: { quote: 2 }, execute: backup }))
+
+		const items = await routeMany('quote', 'get', [...symbols('AAPL', 'NOPE', 'ODD'), { symbol: '' }], {
+			noCache: true,
+		})
+		expect(items.map((i) => i.ok)).toEqual([true, false, true, false])
+		// The definitive miss is final; the odd payload fell back to the next source
+		expect(!items[1].ok && items[1].error).toBeInstanceOf(errors.SymbolNotFoundError)
+		expect(items[2].ok && items[2].result.source).toBe('backup')
+		expect(backup).toHaveBeenCalledTimes(1)
+		expect(!items[3].ok && items[3].error).toBeInstanceOf(errors.InvalidArgumentError)
+	})
+
+	it('routes one by one, with bounded concurrency, when there is no batch endpoint', async () => {
+		let active = 0
+		let peak = 0
+		const executeBatch = vi.fn(async () => undefined)
+		registerProvider(
+			createMockProvider({
+				name: 'single',
+				executeBatch,
+				execute: async <T>(_c: DataCategory, _a: string, args: Record<string, unknown>) => {
+					active++
+					peak = Math.max(peak, active)
+					await new Promise((r) => setTimeout(r, 5))
+					active--
+					if (args.symbol === 'BAD') throw new Error('API down')
+					return { data: { symbol: args.symbol } as T, source: 'single', cached: false }
+				},
+			}),
+		)
+
+		const items = await routeMany('quote', 'get', symbols('A', 'B', 'BAD', 'C', 'D'), {
+			noCache: true,
+			concurrency: 2,
+		})
+		expect(executeBatch).toHaveBeenCalledTimes(1)
+		expect(peak).toBe(2)
+		expect(items.map((i) => i.ok)).toEqual([true, true, false, true, true])
+		expect(!items[2].ok && items[2].error).toBeInstanceOf(errors.AllProvidersFailedError)
+	})
+
+	it('falls back to single requests when the batch call fails as a whole', async () => {
+		const execute = vi.fn(async <T>(_c: DataCategory, _a: string, args: Record<string, unknown>) => ({
+			data: { symbol: args.symbol } as T,
+			source: 'flaky',
+			cached: false,
+		}))
+		registerProvider(
+			createMockProvider({
+				name: 'flaky',
+				execute,
+				executeBatch: async () => {
+					throw new errors.NetworkError('connection reset')
+				},
+			}),
+		)
+
+		const items = await routeMany('quote', 'get', symbols('AAPL', 'MSFT'), { noCache: true })
+		expect(items.every((i) => i.ok)).toBe(true)
+		expect(execute).toHaveBeenCalledTimes(2)
+	})
+
+	it("leaves a half-open provider's trial to route() when it has no batch endpoint", async () => {
+		const breaker = await import('../src/core/circuit-breaker.js')
+		vi.useFakeTimers()
+		try {
+			registerProvider(
+				createMockProvider({
+					name: 'single',
+					execute: async <T>(_c: DataCategory, _a: string, args: Record<string, unknown>) => ({
+						data: { symbol: args.symbol } as T,
+						source: 'single',
+						cached: false,
+					}),
+				}),
+			)
+			for (let i = 0; i < 3; i++) breaker.recordFailure('single', 'quote')
+			vi.advanceTimersByTime(60_000)
+
+			// The first item's request is the trial; it closes the breaker for the second
+			const items = await routeMany('quote', 'get', symbols('AAPL', 'MSFT'), { noCache: true, concurrency: 1 })
+			expect(items.map((i) => i.ok)).toEqual([true, true])
+			expect(breaker.getBreakerState('single', 'quote')).toBe('closed')
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+})
+
+describe('commands: quote', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+		process.exitCode = undefined
+	})
+
+	async function runQuote(format: string, ...symbols: string[]) {
+		vi.resetModules()
+		const { registerProvider } = await import('../src/core/router.js')
+		const errors = await import('../src/core/errors.js')
+		registerProvider(
+			createMockProvider({
+				name: 'partial',
+				execute: async <T>(_c: DataCategory, _a: string, args: Record<string, unknown>) => {
+					if (args.symbol === 'XXXX') {
+						throw new errors.SymbolNotFoundError('Symbol "XXXX" not found', {
+							symbol: 'XXXX',
+							definitive: true,
+						})
+					}
+					const quote = {
+						symbol: args.symbol,
+						price: 10,
+						change: 1,
+						changePercent: 10,
+						dayLow: 9.5,
+						dayHigh: 10.5,
+						low52w: 5,
+						high52w: 15,
+					}
+					return { data: quote as T, source: 'partial', cached: false }
+				},
+			}),
+		)
+		const { Command } = await import('commander')
+		const { registerQuoteCommand } = await import('../src/commands/quote.js')
+		const program = new Command()
+		program.setOptionValue('format', format)
+		registerQuoteCommand(program)
+
+		const out: string[] = []
+		const err: string[] = []
+		vi.spyOn(console, 'log').mockImplementation((line) => out.push(String(line)))
+		vi.spyOn(console, 'error').mockImplementation((line) => err.push(String(line)))
+		await program.parseAsync(['quote', ...symbols], { from: 'user' })
+		return { out: out.join('\n'), err: err.join('\n'), exitCode: process.exitCode }
+	}
+
+	it('prints the quotes it got and lists each failed symbol', async () => {
+		const { out, err, exitCode } = await runQuote('markdown', 'AAPL', 'XXXX', 'MSFT')
+		expect(out).toContain('| AAPL')
+		expect(out).toContain('| MSFT')
+		expect(out).not.toContain('XXXX')
+		expect(err).toContain('Failed (1 of 3)')
+		expect(err).toContain('XXXX: Symbol "XXXX" not found')
+		expect(exitCode).toBe(10)
+	})
+
+	it('includes an errors array in JSON output', async () => {
+		const { out, exitCode } = await runQuote('json', 'AAPL', 'XXXX')
+		const parsed = JSON.parse(out)
+		expect(parsed.data.map((q: { symbol: string }) => q.symbol)).toEqual(['AAPL'])
+		expect(parsed.source).toBe('partial')
+		expect(parsed.cached).toBe(false)
+		expect(parsed.errors).toEqual([
+			{ symbol: 'XXXX', error: 'Symbol "XXXX" not found', exitCode: 3 },
+		])
+		expect(exitCode).toBe(10)
+	})
+
+	it('writes change, change percent and range bounds as numbers of their own in CSV', async () => {
+		const csvRecords = (out: string) => {
+			const [header, ...rows] = out.split('\n').map((line) => line.split(','))
+			return rows.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i]])))
+		}
+		const [single] = csvRecords((await runQuote('csv', 'AAPL')).out)
+		expect(single).toMatchObject({
+			Change: '1',
+			'Change %': '10',
+			'Day Low': '9.5',
+			'Day High': '10.5',
+			'52w Low': '5',
+			'52w High': '15',
+		})
+		expect(single).not.toHaveProperty('Day Range')
+
+		// The multi-symbol table uses the same column names for the same numbers
+		const multi = csvRecords((await runQuote('csv', 'AAPL', 'MSFT')).out)
+		expect(multi[0]).toMatchObject({ Symbol: 'AAPL', Price: '10', Change: '1', 'Change %': '10' })
+	})
+
+	it("exits with the failure's own code when no symbol succeeds", async () => {
+		const { exitCode } = await runQuote('json', 'XXXX', 'XXXX')
+		expect(exitCode).toBe(3)
+	})
+})
+
+describe('commands: empty results', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	async function runDividends(format: string) {
+		vi.resetModules()
+		const { registerProvider } = await import('../src/core/router.js')
+		registerProvider(
+			createMockProvider({
+				name: 'empty',
+				capabilities: ['dividends'],
+				execute: async <T>() => ({ data: [] as T, source: 'empty', cached: false }),
+			}),
+		)
+		const { Command } = await import('commander')
+		const { registerDividendsCommand } = await import('../src/commands/dividends.js')
+		const program = new Command()
+		program.setOptionValue('format', format)
+		registerDividendsCommand(program)
+
+		const out: string[] = []
+		vi.spyOn(console, 'log').mockImplementation((line) => out.push(String(line)))
+		await program.parseAsync(['dividends', 'AAPL'], { from: 'user' })
+		return out.join('\n')
+	}
+
+	it('says there is no data in tables', async () => {
+		expect(await runDividends('markdown')).toBe('No dividend data available.')
+	})
+
+	it('still prints the JSON envelope, with empty data', async () => {
+		const parsed = JSON.parse(await runDividends('json'))
+		expect(parsed).toMatchObject({ data: [], source: 'empty', cached: false })
+	})
+})
+
+describe('cli: global options', () => {
+	let home: string
+	const argv = process.argv
+
+	beforeEach(() => {
+		home = mkdtempSync(join(tmpdir(), 'omd-cli-'))
+		vi.stubEnv('HOME', home)
+		vi.stubEnv('OMD_MOCK', '1')
+	})
+
+	afterEach(() => {
+		process.argv = argv
+		vi.unstubAllEnvs()
+		vi.restoreAllMocks()
+		rmSync(home, { recursive: true, force: true })
+	})
+
+	// Runs src/cli.ts in this process, as `omd ...args`, and waits for its output
+	async function runCli(...args: string[]): Promise<string> {
+		vi.resetModules()
+		const out: string[] = []
+		vi.spyOn(console, 'log').mockImplementation((line) => out.push(String(line)))
+		process.argv = ['node', 'omd', ...args]
+		await import('../src/cli.js')
+		await vi.waitFor(() => expect(out.length).toBeGreaterThan(0))
+		return out.join('\n')
+	}
+
+	const cacheEntries = () => {
+		const dir = join(home, '.omd', 'cache')
+		return existsSync(dir) ? readdirSync(dir).filter((f) => f.endsWith('.json') && f !== 'stats.json') : []
+	}
+
+	it('neither reads nor writes the disk cache', async () => {
+		await runCli('--no-cache', '--json', 'quote', 'AAPL', '-s', 'mock')
+		expect(cacheEntries()).toEqual([])
+
+		await runCli('--json', 'quote', 'AAPL', '-s', 'mock')
+		expect(cacheEntries()).toHaveLength(1)
+		const out = await runCli('--no-cache', '--json', 'quote', 'AAPL', '-s', 'mock')
+		expect(JSON.parse(out).cached).toBe(false)
+	})
+
+	it('takes --stale-if-error as a flag, leaving the command after it alone', async () => {
+		const out = await runCli('--stale-if-error', '--json', 'quote', 'AAPL', '-s', 'mock')
+		expect(JSON.parse(out).data.symbol).toBe('AAPL')
+	})
+})
+
+describe('errors: exit codes', () => {
+	it('maps each error class to its own exit code', async () => {
+		const errors = await import('../src/core/errors.js')
+		const cases: [Error, number][] = [
+			[new errors.InvalidArgumentError('bad'), 2],
+			[new errors.SymbolNotFoundError('missing', { symbol: 'X' }), 3],
+			[new errors.AuthError('no key'), 4],
+			[new errors.RateLimitError('slow down'), 5],
+			[new errors.UpstreamError('500', { status: 500 }), 6],
+			[new errors.NetworkError('offline'), 7],
+			[new errors.NoProviderError('none'), 8],
+			[new errors.AllProvidersFailedError('all failed', []), 9],
+			[new Error('anything else'), 1],
+		]
+		for (const [err, code] of cases) expect(errors.exitCodeFor(err)).toBe(code)
+	})
+
+	it('classifies HTTP statuses', async () => {
+		const errors = await import('../src/core/errors.js')
+		expect(errors.errorFromStatus(401, 'x')).toBeInstanceOf(errors.AuthError)
+		expect(errors.errorFromStatus(429, 'x')).toBeInstanceOf(errors.RateLimitError)
+		const upstream = errors.errorFromStatus(503, 'x')
+		expect(upstream).toBeInstanceOf(errors.UpstreamError)
+		expect((upstream as InstanceType<typeof errors.UpstreamError>).status).toBe(503)
+	})
+})
+
 // ─── Cache ───────────────────────────────────────────────────────────────────
 
 describe('cache: TTL expiration', () => {
@@ -350,7 +1396,101 @@ describe('router: duplicate provider registration', () => {
 		registerProvider(second)
 
 		const mod = await import('../src/core/router.js')
-		const result = await mod.route('quote', 'price', { symbol: 'X' })
+		const result = await mod.routeUntyped('quote', 'price', { symbol: 'X' })
 		expect(result.data).toEqual({ version: 1 })
 	})
 })
+
+describe('providers: plugins', () => {
+	let dir: string
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'omd-plugins-'))
+	})
+
+	afterEach(() => {
+		vi.doUnmock('../src/core/config.js')
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	async function registerWithPlugins(
+		plugins: string[],
+		onPluginError?: (spec: string, err: unknown) => void,
+	) {
+		vi.resetModules()
+		vi.doMock('../src/core/config.js', async (importOriginal) => ({
+			...(await importOriginal<typeof import('../src/core/config.js')>()),
+			loadConfig: () => ({ plugins }),
+		}))
+		const { registerAllProviders } = await import('../src/providers/registry.js')
+		await registerAllProviders({ onPluginError })
+		return import('../src/core/router.js')
+	}
+
+	const pluginSource = (name: string) => `
+		export default {
+			name: '${name}',
+			requiresKey: false,
+			capabilities: ['quote'],
+			priority: { quote: 9 },
+			rateLimits: { maxRequests: 10, windowMs: 1000 },
+			isEnabled: () => true,
+			execute: async () => ({ data: { symbol: 'AAPL', price: 1 }, source: '${name}', cached: false }),
+		}
+	`
+
+	it('registers providers exported by a plugin module and routes to them with a forced source', async () => {
+		const file = join(dir, 'internal.mjs')
+		writeFileSync(file, pluginSource('internal'))
+
+		const { getProviders, route } = await registerWithPlugins([file])
+		expect(getProviders().map((p) => p.name)).toContain('internal')
+		expect(getProviders().map((p) => p.name)).toContain('yahoo')
+
+		const result = await route('quote', 'get', { symbol: 'AAPL' }, { source: 'internal', noCache: true })
+		expect(result).toMatchObject({ source: 'internal', data: { price: 1 } })
+	})
+
+	it('accepts an array of providers from a named export', async () => {
+		const file = join(dir, 'pair.mjs')
+		writeFileSync(
+			file,
+			`${pluginSource('one').replace('export default', 'const one =')}
+			${pluginSource('two').replace('export default', 'const two =')}
+			export const providers = [one, two]`,
+		)
+
+		const { getProviders } = await registerWithPlugins([file])
+		expect(getProviders().map((p) => p.name)).toEqual(expect.arrayContaining(['one', 'two']))
+	})
+
+	it('rejects modules that do not match the Provider interface', async () => {
+		const file = join(dir, 'broken.mjs')
+		writeFileSync(file, `export default { name: 'broken', capabilities: ['stocks'] }`)
+
+		await expect(registerWithPlugins([file])).rejects.toThrow(
+			/Plugin ".*broken\.mjs" is not a valid provider: requiresKey: Required; capabilities\.0: Invalid enum value/,
+		)
+	})
+
+	it('rejects plugins that reuse a built-in source name', async () => {
+		const file = join(dir, 'yahoo.mjs')
+		writeFileSync(file, pluginSource('yahoo'))
+
+		await expect(registerWithPlugins([file])).rejects.toThrow(/a source named "yahoo" already exists/)
+	})
+
+	it('reports a failing plugin to onPluginError and keeps loading the rest', async () => {
+		const good = join(dir, 'good.mjs')
+		writeFileSync(good, pluginSource('good'))
+		const failures: string[] = []
+
+		const { getProviders } = await registerWithPlugins(
+			[join(dir, 'missing.mjs'), good],
+			(spec, err) => failures.push(`${spec}: ${(err as Error).message}`),
+		)
+		expect(failures).toHaveLength(1)
+		expect(failures[0]).toMatch(/missing\.mjs: Cannot load plugin/)
+		expect(getProviders().map((p) => p.name)).toContain('good')
+	})
+})
@@ -0,0 +1,185 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import YahooFinance from 'yahoo-finance2'
+import { getCrumbClear } from 'yahoo-finance2/lib/getCrumb'
+import { yahoo } from '../src/providers/yahoo-finance.js'
+import { secEdgar } from '../src/providers/sec-edgar.js'
+import { binance } from '../src/providers/binance.js'
+import { fred } from '../src/providers/fred.js'
+import {
+	MOCK_AS_OF,
+	mock,
+	mockBars,
+	mockCryptoQuote,
+	mockDividends,
+	mockFilings,
+	mockFinancials,
+	mockMacroSeries,
+	mockQuote,
+} from '../src/providers/mock.js'
+import { type MockServer, startMockServer } from '../src/providers/mock-server.js'
+import { CONTRACTS } from '../src/core/contracts.js'
+import { resetConfigCache } from '../src/core/config.js'
+import { type FetchLike, setFetch } from '../src/core/http.js'
+import type { DataCategory } from '../src/providers/types.js'
+import type {
+	QuoteResult,
+	FinancialStatement,
+	Filing,
+	CryptoQuote,
+	CryptoCandle,
+	DividendEvent,
+	HistoricalQuote,
+	InsiderTransaction,
+	MacroSeries,
+} from '../src/types.js'
+
+// Kept apart from the real-API tests: a failed Yahoo crumb request there is cached
+// for the rest of the module, which would break the mock server run
+
+describe('mock provider', () => {
+	it('serves deterministic data for every contract', async () => {
+		for (const [key, args] of [
+			['search/search', { query: 'apple' }],
+			['quote/get', { symbol: 'AAPL' }],
+			['quote/batch', { symbols: ['AAPL', 'MSFT'] }],
+			['financials/get', { symbol: 'AAPL', period: 'quarterly', limit: 4 }],
+			['filing/list', { symbol: 'AAPL', type: '10-K' }],
+			['insiders/list', { symbol: 'AAPL', limit: 3 }],
+			['macro/get', { seriesId: 'UNRATE', limit: 12 }],
+			['macro/search', { query: 'rate' }],
+			['macro/categories', {}],
+			['crypto/quote', { symbol: 'BTC' }],
+			['crypto/price', { symbol: 'ETH' }],
+			['crypto/history', { symbol: 'BTC', days: 7, interval: '1h' }],
+			['crypto/top', { limit: 5 }],
+			['crypto/trending', {}],
+			['crypto/global', {}],
+			['history/get', { symbol: 'AAPL', days: 10 }],
+			['options/get', { symbol: 'AAPL' }],
+			['earnings/get', { symbol: 'AAPL' }],
+			['dividends/get', { symbol: 'AAPL' }],
+		] as const) {
+			const [category, action] = key.split('/') as [DataCategory, string]
+			const first = await mock.execute(category, action, args)
+			const second = await mock.execute(category, action, args)
+			expect(first.source, key).toBe('mock')
+			expect(first.data, key).toEqual(second.data)
+			if (Array.isArray(first.data)) expect(first.data.length, key).toBeGreaterThan(0)
+		}
+		const keys = Object.entries(mock.actions ?? {}).flatMap(([c, a]) => Object.keys(a).map((x) => `${c}/${x}`))
+		expect(keys.sort()).toEqual(Object.keys(CONTRACTS).sort())
+	})
+
+	it('keeps quotes, bars and windows consistent', () => {
+		const quote = mockQuote('AAPL')
+		const bars = mockBars('AAPL', 30)
+		expect(bars).toHaveLength(30)
+		expect(bars[29]).toMatchObject({ date: MOCK_AS_OF, close: quote.price })
+		// A shorter window is the tail of a longer one
+		expect(mockBars('AAPL', 5)).toEqual(bars.slice(-5))
+		expect(mockMacroSeries('UNRATE', { limit: 12 }).data).toHaveLength(12)
+		expect(mockFilings('AAPL', { latest: true })).toHaveLength(1)
+	})
+})
+
+describe('mock server (real provider code)', () => {
+	let server: MockServer
+
+	beforeAll(async () => {
+		server = await startMockServer()
+		setFetch(server.fetch)
+		vi.stubEnv('FRED_API_KEY', 'mock-key')
+		resetConfigCache()
+	})
+
+	afterAll(async () => {
+		setFetch()
+		vi.unstubAllEnvs()
+		resetConfigCache()
+		await server.close()
+	})
+
+	it('answers Yahoo quote and chart requests, crumb flow included', async () => {
+		const quote = await yahoo.execute<QuoteResult>('quote', 'get', { symbol: 'AAPL' })
+		expect(quote.data).toMatchObject({ symbol: 'AAPL', price: mockQuote('AAPL').price })
+
+		const batch = await yahoo.executeBatch?.<QuoteResult>('quote', 'get', [{ symbol: 'AAPL' }, { symbol: 'nvda' }])
+		expect(batch?.map((r) => !(r instanceof Error) && r.data.price)).toEqual([
+			mockQuote('AAPL').price,
+			mockQuote('NVDA').price,
+		])
+
+		const history = await yahoo.execute<HistoricalQuote[]>('history', 'get', { symbol: 'MSFT', days: 10 })
+		expect(history.data.length).toBeGreaterThan(0)
+		expect(history.data.at(-1)?.close).toBe(mockQuote('MSFT').price)
+
+		const dividends = await yahoo.execute<DividendEvent[]>('dividends', 'get', { symbol: 'AAPL' })
+		expect(dividends.data.map((d) => d.amount)).toEqual(mockDividends('AAPL').map((d) => d.amount))
+	})
+
+	it('answers SEC EDGAR ticker, submissions, companyfacts and search requests', async () => {
+		const filings = await secEdgar.execute<Filing[]>('filing', 'list', { symbol: 'AAPL', type: '10-Q' })
+		expect(filings.data).toEqual(
+			mockFilings('AAPL', { type: '10-Q' }).map((f) => ({ ...f, source: 'sec-edgar' })),
+		)
+
+		const financials = await secEdgar.execute<FinancialStatement[]>('financials', 'get', { symbol: 'AAPL', limit: 2 })
+		const expected = mockFinancials('AAPL', 'annual', 2)
+		expect(financials.data.map((s) => [s.period, s.revenue])).toEqual(expected.map((s) => [s.period, s.revenue]))
+
+		const insiders = await secEdgar.execute<InsiderTransaction[]>('insiders', 'list', { symbol: 'AAPL' })
+		expect(insiders.data.length).toBeGreaterThan(0)
+
+		await expect(secEdgar.execute('filing', 'list', { symbol: 'NOPE' })).rejects.toThrow(/not found/)
+	})
+
+	it('answers FRED and Binance requests', async () => {
+		const series = await fred.execute<MacroSeries>('macro', 'get', { seriesId: 'UNRATE', limit: 6 })
+		expect(series.data.data).toEqual(mockMacroSeries('UNRATE', { limit: 6 }).data)
+
+		const btc = await binance.execute<CryptoQuote>('crypto', 'quote', { symbol: 'BTC' })
+		expect(btc.data.price).toBe(mockCryptoQuote('BTC').price)
+		const candles = await binance.execute<CryptoCandle[]>('crypto', 'history', { symbol: 'BTC', days: 5 })
+		expect(candles.data).toHaveLength(5)
+	})
+
+	it('replays a recorded Yahoo session in a fresh process, crumb flow included', async () => {
+		const dir = mkdtempSync(join(tmpdir(), 'omd-fixtures-'))
+		// Stand in for a new process: fresh modules, and yahoo-finance2's shared cookie jar and crumb cleared
+		const freshYahoo = async (fetchFor: (fixtures: typeof import('../src/core/fixtures.js')) => FetchLike) => {
+			await getCrumbClear(new YahooFinance()._opts.cookieJar)
+			vi.resetModules()
+			const http = await import('../src/core/http.js')
+			http.setFetch(fetchFor(await import('../src/core/fixtures.js')))
+			return (await import('../src/providers/yahoo-finance.js')).yahoo
+		}
+		try {
+			const recording = await freshYahoo((f) => f.createRecordingFetch(dir, server.fetch))
+			const quote = await recording.execute<QuoteResult>('quote', 'get', { symbol: 'AAPL' })
+			const history = await recording.execute<HistoricalQuote[]>('history', 'get', { symbol: 'AAPL', days: 5 })
+
+			const replaying = await freshYahoo((f) => f.createReplayFetch(dir))
+			const replayedQuote = await replaying.execute<QuoteResult>('quote', 'get', { symbol: 'AAPL' })
+			expect(replayedQuote.data).toEqual(quote.data)
+			const replayedHistory = await replaying.execute<HistoricalQuote[]>('history', 'get', { symbol: 'AAPL', days: 5 })
+			expect(replayedHistory.data).toEqual(history.data)
+		} finally {
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	it('fails requests for hosts it does not imitate', async () => {
+		await expect(server.fetch('https://api.coingecko.com/api/v3/ping')).rejects.toThrow(
+			/not imitated by the mock server/,
+		)
+	})
+
+	it('names the endpoints it does not imitate', async () => {
+		await expect(yahoo.execute('options', 'get', { symbol: 'AAPL' })).rejects.toThrow(
+			'Not supported by the mock server: query2.finance.yahoo.com/v7/finance/options/AAPL',
+		)
+	})
+})